@@ -0,0 +1,178 @@
+/**
+ * Per-hunk analysis - the AI calls and local analyzers for one hunk, shared by the CLI and tests
+ */
+
+import { resolve } from 'path';
+import { splitHunk } from './parsers/chunk.js';
+import { AIReview, mergeReviews, reviewCode, REVIEW_PROMPT_VERSION } from './api/review.js';
+import { UsageMeter } from './api/provider.js';
+import { classifyError, ReviewApiError } from './api/retry.js';
+import { analyzeSummary, mergeSummaries, SUMMARY_PROMPT_VERSION } from './analyzers/summary.js';
+import { analyzePatterns } from './analyzers/patterns.js';
+import { redactHunk, scanSecrets } from './analyzers/secrets.js';
+import { analyzeComplexity } from './analyzers/complexity.js';
+import { estimateHunkLikelihood } from './analyzers/likelihood.js';
+import { cacheKey, withCache } from './cache.js';
+import { addUsage, emptyUsage, priceFor, UsageLedger, withCost } from './usage.js';
+import {
+  Config,
+  DiffHunk,
+  HunkAnalysis,
+  HunkRisk,
+  HunkStatus,
+  LineRange,
+  SummaryAnalysis
+} from './types.js';
+
+/**
+ * `config` with only the local analyzers enabled
+ */
+export function withoutAi(config: Config): Config {
+  return { ...config, enabledAnalyzers: { ...config.enabledAnalyzers, aiReview: false, summary: false } };
+}
+
+/**
+ * Whether `config` makes any AI calls
+ */
+export function usesAi(config: Config): boolean {
+  return config.enabledAnalyzers.aiReview || config.enabledAnalyzers.summary;
+}
+
+/**
+ * Give the --max-hunks slots for AI calls to the riskiest hunks; the rest keep only the
+ * local analyzers and are marked overMaxHunks. Hunks without AI calls (moved, formatting-only
+ * or turned off for their path) don't take a slot. Equal scores go in diff order, and the
+ * jobs come back in the order given.
+ */
+export function selectAiHunks<T extends { config: Config; risk: HunkRisk }>(
+  candidates: T[],
+  maxHunks: number
+): Array<T & { overMaxHunks: boolean }> {
+  const selected = new Set(
+    candidates
+      .filter(candidate => usesAi(candidate.config))
+      .sort((a, b) => b.risk.score - a.risk.score)
+      .slice(0, maxHunks)
+  );
+  return candidates.map(candidate => usesAi(candidate.config) && !selected.has(candidate)
+    ? { ...candidate, config: withoutAi(candidate.config), overMaxHunks: true }
+    : { ...candidate, overMaxHunks: false });
+}
+
+/**
+ * Split a hunk into the redacted chunks that are sent to the AI
+ */
+export function prepareHunk(hunk: DiffHunk, config: Config) {
+  // Credentials are reported locally and never leave the machine
+  const secrets = config.enabledAnalyzers.secrets ? scanSecrets(hunk, config.secretsAllowlist) : [];
+  const outbound = config.enabledAnalyzers.secrets ? redactHunk(hunk, config.secretsAllowlist) : hunk;
+
+  // Oversized hunks are reviewed in chunks; chunks past the limit are reported, not dropped silently
+  const chunks = splitHunk(outbound, config.maxChunkTokens);
+  const skippedRanges: LineRange[] = [];
+  for (const chunk of chunks.slice(config.maxChunksPerHunk)) {
+    const last = skippedRanges[skippedRanges.length - 1];
+    if (last && chunk.startLine <= last.endLine + 1) {
+      last.endLine = chunk.endLine;
+    } else {
+      skippedRanges.push({ startLine: chunk.startLine, endLine: chunk.endLine });
+    }
+  }
+
+  return { secrets, chunks, reviewedChunks: chunks.slice(0, config.maxChunksPerHunk), skippedRanges };
+}
+
+/**
+ * Analyze a single hunk with AI and the enabled analyzers. With a `ledger`, every AI
+ * call is checked against the run's budget before it is sent.
+ */
+export async function analyzeHunk(
+  hunk: DiffHunk,
+  config: Config,
+  ledger?: UsageLedger
+): Promise<HunkAnalysis> {
+  const startTime = Date.now();
+  const { model, enabledAnalyzers: analyzers } = config;
+  const cacheDir = config.cache ? resolve(config.cacheDir) : null;
+  // The same model name can mean different weights on different providers
+  const cacheModel = `${config.provider}/${model}`;
+  const { secrets, chunks, reviewedChunks, skippedRanges } = prepareHunk(hunk, config);
+
+  const usage = emptyUsage();
+  const meterCall: UsageMeter = {
+    reserve: estimate => {
+      if (ledger && !ledger.reserve(estimate)) {
+        throw new ReviewApiError('Not sent: the review budget would be exceeded', 'over-budget');
+      }
+    },
+    record: (estimate, callUsage) => {
+      ledger?.settle(estimate, callUsage);
+      if (callUsage) addUsage(usage, callUsage);
+    }
+  };
+
+  const reviews: PromiseSettledResult<{ value: AIReview; cached: boolean } | undefined>[] = [];
+  const summaries: PromiseSettledResult<{ value: SummaryAnalysis; cached: boolean } | undefined>[] = [];
+  const errors: string[] = [];
+
+  // Chunks run one after another so a large hunk doesn't exceed the concurrency limit.
+  // A failed API call costs this hunk its AI results, never the whole run.
+  for (const chunk of reviewedChunks) {
+    const [review, summary] = await Promise.allSettled([
+      analyzers.aiReview
+        ? withCache(
+            cacheDir,
+            cacheKey('review', chunk, cacheModel, REVIEW_PROMPT_VERSION),
+            () => reviewCode(chunk, model, meterCall)
+          )
+        : Promise.resolve(undefined),
+      analyzers.summary
+        ? withCache(cacheDir, cacheKey('summary', chunk, cacheModel, SUMMARY_PROMPT_VERSION), () => analyzeSummary(chunk, model, meterCall))
+        : Promise.resolve(undefined)
+    ]);
+    reviews.push(review);
+    summaries.push(summary);
+
+    const where = chunks.length > 1 ? `lines ${chunk.startLine}-${chunk.endLine}: ` : '';
+    for (const outcome of [review, summary]) {
+      if (outcome.status === 'rejected') {
+        const error = classifyError(outcome.reason);
+        // The hunk's status already says so
+        if (error.kind === 'over-budget') continue;
+        errors.push(`${where}${error.kind}: ${error.message}`);
+      }
+    }
+  }
+
+  const fulfilled = <T>(outcomes: PromiseSettledResult<{ value: T; cached: boolean } | undefined>[]) =>
+    outcomes.flatMap(outcome => outcome.status === 'fulfilled' && outcome.value ? [outcome.value] : []);
+  const reviewResults = fulfilled(reviews);
+  const summaryResults = fulfilled(summaries);
+  // A failed summary leaves the hunk as unanalyzed as a failed review does
+  const failure = [...reviews, ...summaries].find(outcome => outcome.status === 'rejected');
+  const patterns = analyzers.patterns ? analyzePatterns(hunk) : undefined;
+
+  return {
+    hunk,
+    status: failure ? reviewStatus(failure) : 'analyzed',
+    errors: errors.length > 0 ? errors : undefined,
+    cached: [...reviewResults, ...summaryResults].some(result => result.cached) || undefined,
+    skippedRanges: skippedRanges.length > 0 ? skippedRanges : undefined,
+    usage: withCost(usage, priceFor(model, config.pricePerMillionTokens)),
+    aiReview: reviewResults.length > 0 ? mergeReviews(reviewResults.map(result => result.value)) : undefined,
+    secrets: secrets.length > 0 ? secrets : undefined,
+    summary: summaryResults.length > 0 ? mergeSummaries(summaryResults.map(result => result.value)) : undefined,
+    patterns,
+    complexity: analyzers.complexity ? analyzeComplexity(hunk, config.complexityThresholds) : undefined,
+    aiLikelihood: estimateHunkLikelihood(hunk, patterns?.patternsFound),
+    processingTime: Date.now() - startTime
+  };
+}
+
+function reviewStatus(review: PromiseSettledResult<unknown>): HunkStatus {
+  if (review.status === 'fulfilled') {
+    return 'analyzed';
+  }
+  const { kind } = classifyError(review.reason);
+  return kind === 'invalid-response' ? 'analysis-failed' : kind === 'over-budget' ? 'over-budget' : 'not-analyzed';
+}
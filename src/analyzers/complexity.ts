@@ -0,0 +1,245 @@
+/**
+ * Complexity Highlighter - metrics for the functions touched by a hunk
+ */
+
+import {
+  ComplexityAnalysis,
+  ComplexityFlag,
+  ComplexityMetrics,
+  ComplexityThresholds,
+  DEFAULT_CONFIG,
+  DiffHunk,
+  FileAnalysis
+} from '../types.js';
+import {
+  NumberedLine,
+  findFunctionSpans,
+  findPythonFunctionSpans,
+  findPythonStatements,
+  getAddedLines,
+  getNewSideLines,
+  stripPythonStringsAndComments,
+  stripStringsAndComments
+} from '../parsers/code.js';
+import { isPythonFile, isTypeScriptFile } from '../parsers/diff.js';
+import { measureTypeScriptLines } from '../parsers/typescript.js';
+
+// A metric past this multiple of its threshold is critical rather than a warning
+const CRITICAL_MULTIPLIER = 2;
+
+const SUGGESTIONS: Record<keyof ComplexityMetrics, string> = {
+  nestingDepth: 'Flatten nesting with early returns or by extracting inner blocks into functions.',
+  cyclomaticComplexity: 'Split branching logic into smaller functions or replace conditionals with a lookup table.',
+  parameterCount: 'Group related parameters into an options object.',
+  lineCount: 'Break this function into smaller, single-purpose pieces.',
+  dependencyCount: 'This change pulls in many dependencies - check whether the module is doing too much.'
+};
+
+/**
+ * Measure the complexity of a hunk against the configured thresholds
+ */
+export function analyzeComplexity(
+  hunk: DiffHunk,
+  thresholds: ComplexityThresholds = DEFAULT_CONFIG.complexityThresholds
+): ComplexityAnalysis {
+  const metrics = measureHunk(hunk);
+
+  const flags: ComplexityFlag[] = [];
+  for (const metric of Object.keys(thresholds) as Array<keyof ComplexityMetrics>) {
+    const value = metrics[metric];
+    const threshold = thresholds[metric];
+    if (value > threshold) {
+      flags.push({
+        metric,
+        value,
+        threshold,
+        severity: value > threshold * CRITICAL_MULTIPLIER ? 'critical' : 'warning'
+      });
+    }
+  }
+
+  return {
+    score: scoreMetrics(metrics, thresholds),
+    metrics,
+    flags,
+    suggestions: flags.map(flag => SUGGESTIONS[flag.metric])
+  };
+}
+
+/**
+ * Roll hunk scores up into a single per-file score (0-10)
+ */
+export function fileComplexity(file: FileAnalysis): number {
+  const scores = file.hunks
+    .map(hunk => hunk.complexity?.score)
+    .filter((score): score is number => score !== undefined);
+
+  return scores.length > 0 ? Math.max(...scores) : 0;
+}
+
+/**
+ * Worst-case metrics over the functions the hunk touches.
+ * TypeScript/JavaScript is measured from the syntax tree, other languages from text heuristics:
+ * Python by indentation, everything else by braces.
+ */
+export function measureHunk(hunk: DiffHunk): ComplexityMetrics {
+  const lines = getNewSideLines(hunk);
+  const changed = new Set(getAddedLines(hunk).map(({ line }) => line));
+
+  if (isTypeScriptFile(hunk.filename)) {
+    return measureTypeScriptLines(hunk.filename, lines, changed);
+  }
+
+  const python = isPythonFile(hunk.filename);
+  const spans = python ? findPythonFunctionSpans(lines) : findFunctionSpans(lines);
+  const touched = spans.filter(span =>
+    lines.slice(span.startIndex, span.endIndex + 1).some(({ line }) => changed.has(line))
+  );
+
+  const isFunction = touched.length > 0;
+  const blocks = isFunction
+    ? touched.map(span => lines.slice(span.startIndex, span.endIndex + 1))
+    : [lines];
+
+  const metrics: ComplexityMetrics = {
+    nestingDepth: 0,
+    cyclomaticComplexity: 0,
+    parameterCount: 0,
+    lineCount: 0,
+    dependencyCount: countDependencies(lines)
+  };
+
+  for (const block of blocks) {
+    const depth = python ? indentationDepth(block, isFunction) : nestingDepth(block, isFunction);
+    const parameters = !isFunction ? 0 : python ? countPythonParameters(block) : countParameters(block[0].text);
+    metrics.nestingDepth = Math.max(metrics.nestingDepth, depth);
+    metrics.cyclomaticComplexity = Math.max(metrics.cyclomaticComplexity, cyclomaticComplexity(block, python));
+    metrics.parameterCount = Math.max(metrics.parameterCount, parameters);
+    metrics.lineCount = Math.max(metrics.lineCount, block.filter(({ text }) => text.trim()).length);
+  }
+
+  return metrics;
+}
+
+/**
+ * Deepest brace nesting, not counting the function body itself
+ */
+function nestingDepth(lines: NumberedLine[], isFunction: boolean): number {
+  let depth = 0;
+  let max = 0;
+
+  for (const { text } of lines) {
+    for (const char of stripStringsAndComments(text)) {
+      if (char === '{') {
+        depth++;
+        max = Math.max(max, depth);
+      } else if (char === '}') {
+        depth--;
+      }
+    }
+  }
+
+  return isFunction ? Math.max(0, max - 1) : max;
+}
+
+/**
+ * Deepest indentation nesting of Python statements, not counting the function body itself
+ */
+function indentationDepth(lines: NumberedLine[], isFunction: boolean): number {
+  const open: number[] = [];
+  let max = 0;
+
+  for (const { indent } of findPythonStatements(lines)) {
+    while (open.length > 0 && open[open.length - 1] >= indent) {
+      open.pop();
+    }
+    open.push(indent);
+    max = Math.max(max, open.length);
+  }
+
+  // The outermost level is the def line (or the hunk's own top level), then the function body
+  return Math.max(0, max - (isFunction ? 2 : 1));
+}
+
+/**
+ * McCabe complexity: 1 + number of decision points
+ */
+function cyclomaticComplexity(lines: NumberedLine[], python: boolean): number {
+  let decisions = 0;
+
+  for (const { text } of lines) {
+    if (python) {
+      const code = stripPythonStringsAndComments(text);
+      decisions += (code.match(/\b(if|elif|for|while|except|case|and|or)\b/g) || []).length;
+      continue;
+    }
+    const code = stripStringsAndComments(text);
+    decisions += (code.match(/\b(if|for|while|case|catch)\b/g) || []).length;
+    decisions += (code.match(/&&|\|\||\?\?/g) || []).length;
+    decisions += (code.match(/\?(?![.?:])/g) || []).length;
+  }
+
+  return 1 + decisions;
+}
+
+function countParameters(signature: string): number {
+  const match = stripStringsAndComments(signature).match(/\(([^)]*)\)/);
+  if (!match || !match[1].trim()) return 0;
+
+  // Ignore commas nested inside destructuring or generics
+  let depth = 0;
+  let count = 1;
+  for (const char of match[1]) {
+    if ('{[<'.includes(char)) depth++;
+    else if ('}]>'.includes(char)) depth--;
+    else if (char === ',' && depth === 0) count++;
+  }
+  return match[1].trim().endsWith(',') ? count - 1 : count;
+}
+
+/**
+ * Parameters of a Python def, which may span several lines; self, cls and the bare
+ * `*` and `/` markers are not counted
+ */
+function countPythonParameters(lines: NumberedLine[]): number {
+  const code = lines.map(({ text }) => stripPythonStringsAndComments(text)).join(' ');
+  const open = code.search(/\bdef\s+\w+\s*\(/);
+  if (open === -1) return 0;
+
+  const params: string[] = [];
+  let current = '';
+  let depth = 0;
+  for (const char of code.slice(code.indexOf('(', open) + 1)) {
+    if ('([{'.includes(char)) depth++;
+    else if (')]}'.includes(char) && depth-- === 0) break;
+    if (char === ',' && depth === 0) {
+      params.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  params.push(current);
+
+  return params
+    .map(param => param.split(/[:=]/)[0].trim())
+    .filter(name => name && !['self', 'cls', '*', '/'].includes(name))
+    .length;
+}
+
+function countDependencies(lines: NumberedLine[]): number {
+  return lines.filter(({ text }) =>
+    /^\s*(import|from\s+[\w.]+\s+import)\s/.test(text) || /\brequire\s*\(\s*['"]/.test(text)
+  ).length;
+}
+
+/**
+ * 0-10 score: each metric contributes up to 2 points as it approaches twice its threshold
+ */
+function scoreMetrics(metrics: ComplexityMetrics, thresholds: ComplexityThresholds): number {
+  let score = 0;
+  for (const metric of Object.keys(thresholds) as Array<keyof ComplexityMetrics>) {
+    score += Math.min(metrics[metric] / thresholds[metric], CRITICAL_MULTIPLIER);
+  }
+  return Math.round(score * 10) / 10;
+}
@@ -0,0 +1,85 @@
+/**
+ * AI-generated code likelihood - combines text heuristics with pattern findings
+ */
+
+import {
+  AiLikelihood,
+  AiLikelihoodLevel,
+  DiffHunk,
+  HunkAnalysis,
+  PatternMatch
+} from '../types.js';
+import { quickAiSignals } from '../parsers/diff.js';
+
+// Same cut-offs as quickAiCheck, so a hunk with no pattern findings scores identically
+const HIGH_SCORE = 4;
+const MEDIUM_SCORE = 2;
+
+/**
+ * Likelihood for a single hunk from its added lines and any detected patterns
+ */
+export function estimateHunkLikelihood(
+  hunk: DiffHunk,
+  patternsFound: PatternMatch[] = []
+): AiLikelihood {
+  const heuristics = quickAiSignals(hunk.additions.join('\n'));
+  const patternTypes = [...new Set(patternsFound.map(match => match.type))];
+
+  const score = heuristics.score + patternTypes.length;
+  return {
+    level: levelFor(score),
+    score,
+    signals: [...heuristics.signals, ...patternTypes.map(type => `${type} pattern`)]
+  };
+}
+
+/**
+ * Weighted roll-up of several estimates (weights are usually added line counts)
+ */
+export function combineLikelihoods(
+  estimates: Array<{ likelihood: AiLikelihood; weight: number }>
+): AiLikelihood {
+  const totalWeight = estimates.reduce((sum, { weight }) => sum + weight, 0);
+  if (estimates.length === 0 || totalWeight === 0) {
+    return { level: 'low', score: 0, signals: [] };
+  }
+  if (estimates.length === 1) {
+    return estimates[0].likelihood;
+  }
+
+  const score = estimates.reduce((sum, { likelihood, weight }) => sum + likelihood.score * weight, 0) / totalWeight;
+
+  // Count how many estimates each signal came from, ignoring the leading count
+  const signalCounts = new Map<string, number>();
+  for (const { likelihood } of estimates) {
+    for (const signal of likelihood.signals) {
+      const key = signal.replace(/^\d+%?\s+/, '');
+      signalCounts.set(key, (signalCounts.get(key) || 0) + 1);
+    }
+  }
+
+  return {
+    level: levelFor(score),
+    score: Math.round(score * 10) / 10,
+    signals: [...signalCounts.entries()]
+      .sort((a, b) => b[1] - a[1])
+      .map(([signal, count]) => `${signal} (${count} of ${estimates.length} hunks)`)
+  };
+}
+
+/**
+ * File- or PR-level likelihood from analyzed hunks, weighted by added lines
+ */
+export function hunksLikelihood(hunks: HunkAnalysis[]): AiLikelihood {
+  return combineLikelihoods(
+    hunks
+      .filter(hunk => hunk.aiLikelihood)
+      .map(hunk => ({ likelihood: hunk.aiLikelihood as AiLikelihood, weight: Math.max(1, hunk.hunk.additions.length) }))
+  );
+}
+
+function levelFor(score: number): AiLikelihoodLevel {
+  if (score >= HIGH_SCORE) return 'high';
+  if (score >= MEDIUM_SCORE) return 'medium';
+  return 'low';
+}
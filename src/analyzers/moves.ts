@@ -0,0 +1,171 @@
+/**
+ * Moved and formatting-only code - hunks whose added lines are not new code
+ */
+
+import { CommitInfo, DiffFile, DiffHunk, TrivialChange } from '../types.js';
+
+// Shorter matches are mostly braces and common one-liners, not moved code
+const MIN_MOVED_LINES = 3;
+
+// Leading whitespace is syntax in these files, so re-indenting them is a real change
+const INDENT_SENSITIVE = /(\.(py|pyw|yaml|yml|coffee|pug|jade|haml|sass|styl)|(^|\/)Makefile|\.mk)$/;
+
+interface BlockLine {
+  text: string;       // trimmed
+  filename: string;
+  line: number;       // old-file line for removed lines, new-file line for added ones
+}
+
+type BlockIndex = Map<string, Array<{ block: BlockLine[]; index: number }>>;
+
+/**
+ * Mark hunks that only move or reformat code by setting `hunk.trivial`. Moves are
+ * matched across all files of the diff, or within one commit of a patch series.
+ * Returns the number of hunks marked.
+ */
+export function detectTrivialChanges(files: DiffFile[]): number {
+  const byCommit = new Map<CommitInfo | undefined, DiffFile[]>();
+  for (const file of files) {
+    const group = byCommit.get(file.commit) ?? [];
+    group.push(file);
+    byCommit.set(file.commit, group);
+  }
+
+  let marked = 0;
+  for (const group of byCommit.values()) {
+    const removed = indexBlocks(group, 'remove');
+    const added = indexBlocks(group, 'add');
+    for (const hunk of group.flatMap(file => file.hunks)) {
+      const trivial = isFormattingOnly(hunk) ? { kind: 'formatting' as const } : findMove(hunk, removed, added);
+      if (trivial) {
+        hunk.trivial = trivial;
+        marked++;
+      }
+    }
+  }
+
+  return marked;
+}
+
+/**
+ * Same code line by line once insignificant whitespace and blank lines are ignored;
+ * only trailing whitespace and blank lines may change in indentation-sensitive files
+ */
+function isFormattingOnly(hunk: DiffHunk): boolean {
+  if (hunk.additions.length === 0) {
+    return false;
+  }
+  const normalizeLine = INDENT_SENSITIVE.test(hunk.filename) ? (line: string) => line.trimEnd() : normalizeWhitespace;
+  const normalize = (lines: string[]) => lines.map(normalizeLine).filter(line => line.trim() !== '').join('\n');
+  return normalize(hunk.additions) === normalize(hunk.deletions);
+}
+
+// Characters that would join into one token if the whitespace between them went away
+const TOKEN_CHARS = [/[\w$]/, /[-+*/%&|^!<>=?:.~]/];
+
+/**
+ * A line with whitespace dropped wherever it doesn't separate tokens. String literals
+ * are kept as written, and line breaks are never touched since they can matter (ASI).
+ */
+function normalizeWhitespace(line: string): string {
+  const trimmed = line.trim();
+  return trimmed.replace(/(["'`])(?:\\.|(?!\1).)*\1|\s+/g, (match, quote: string | undefined, offset: number) => {
+    if (quote) {
+      return match;
+    }
+    const before = trimmed[offset - 1];
+    const after = trimmed[offset + match.length];
+    return TOKEN_CHARS.some(chars => chars.test(before) && chars.test(after)) ? ' ' : '';
+  });
+}
+
+/**
+ * Runs of removed or added lines (blank lines dropped), indexed by the text of each line
+ */
+function indexBlocks(files: DiffFile[], kind: 'remove' | 'add'): BlockIndex {
+  const index: BlockIndex = new Map();
+
+  for (const file of files) {
+    const filename = kind === 'remove' ? file.oldFilename ?? file.filename : file.filename;
+    for (const hunk of file.hunks) {
+      let block: BlockLine[] = [];
+      for (const line of [...hunk.lines, null]) {
+        if (line?.kind === kind) {
+          if (line.text.trim() !== '') {
+            block.push({ text: line.text.trim(), filename, line: (kind === 'remove' ? line.oldLine : line.newLine) as number });
+          }
+          continue;
+        }
+        block.forEach((blockLine, i) => {
+          const entries = index.get(blockLine.text) ?? [];
+          entries.push({ block, index: i });
+          index.set(blockLine.text, entries);
+        });
+        block = [];
+      }
+    }
+  }
+
+  return index;
+}
+
+/**
+ * A hunk is moved code when all its non-blank added lines are covered, in order,
+ * by runs of at least MIN_MOVED_LINES removed lines (indentation ignored), and every
+ * removed block it matches comes back whole - a move that drops a line is a change.
+ * Its own removed lines must have gone somewhere too: a hunk that pastes in moved
+ * code while deleting a check is not a move.
+ */
+function findMove(hunk: DiffHunk, removed: BlockIndex, added: BlockIndex): TrivialChange | undefined {
+  const additions = hunk.additions.map(line => line.trim()).filter(line => line !== '');
+  const deletions = hunk.deletions.map(line => line.trim()).filter(line => line !== '');
+  if (additions.length < MIN_MOVED_LINES) {
+    return undefined;
+  }
+
+  const covered = matchRuns(additions, removed);
+  if (!covered || [...covered.blocks].some(([block, lines]) => lines.size < block.length)) {
+    return undefined;
+  }
+  if (deletions.length > 0 && !matchRuns(deletions, added)) {
+    return undefined;
+  }
+
+  const source = covered.first;
+  return { kind: 'moved', movedFrom: { filename: source.filename, line: source.line } };
+}
+
+/**
+ * Cover `lines` in order with runs of at least MIN_MOVED_LINES from indexed blocks,
+ * taking the longest run at each step. Returns the block lines used, or undefined
+ * when some line can't be covered.
+ */
+function matchRuns(lines: string[], index: BlockIndex): { blocks: Map<BlockLine[], Set<number>>; first: BlockLine } | undefined {
+  const blocks = new Map<BlockLine[], Set<number>>();
+  let first: BlockLine | undefined;
+
+  for (let i = 0; i < lines.length;) {
+    let best: { block: BlockLine[]; index: number; length: number } = { block: [], index: 0, length: 0 };
+    for (const { block, index: start } of index.get(lines[i]) ?? []) {
+      let length = 0;
+      while (i + length < lines.length && start + length < block.length && lines[i + length] === block[start + length].text) {
+        length++;
+      }
+      if (length > best.length) {
+        best = { block, index: start, length };
+      }
+    }
+    if (best.length < MIN_MOVED_LINES) {
+      return undefined;
+    }
+    const used = blocks.get(best.block) ?? new Set<number>();
+    for (let j = best.index; j < best.index + best.length; j++) {
+      used.add(j);
+    }
+    blocks.set(best.block, used);
+    first ??= best.block[best.index];
+    i += best.length;
+  }
+
+  return first && { blocks, first };
+}
@@ -0,0 +1,279 @@
+/**
+ * Pattern Decoder - local, deterministic detection of common AI-isms
+ */
+
+import {
+  DiffHunk,
+  PatternAnalysis,
+  PatternMatch,
+  PatternType
+} from '../types.js';
+import {
+  NumberedLine,
+  findFunctionSpans,
+  getAddedLines,
+  isCommentLine,
+  stripStringsAndComments
+} from '../parsers/code.js';
+import { isTypeScriptFile } from '../parsers/diff.js';
+import { findTypeScriptFunctionSpans } from '../parsers/typescript.js';
+import { estimateHunkLikelihood } from './likelihood.js';
+
+type PatternDetector = (lines: NumberedLine[], filename: string) => PatternMatch | null;
+
+const MONOLITHIC_LINE_COUNT = 80;
+const MONOLITHIC_STATE_HOOKS = 8;
+const IMPORT_BLOAT_COUNT = 10;
+const LONG_NAME_LENGTH = 20;
+
+const GENERIC_NAMES = new Set([
+  'data', 'temp', 'tmp', 'result', 'res', 'item', 'obj', 'val', 'value', 'info', 'foo', 'stuff', 'thing', 'x'
+]);
+
+const OBVIOUS_COMMENT = /^\s*\/\/\s*(Import|Define|Create|Set|Check|Return|Call|Get|Make|Parse|Use|Initialize|Increment|Loop|Throw|Clear|Add|Update|Try|Declare|Assign)\b/;
+
+const KEY_QUESTIONS: Record<PatternType, string> = {
+  'over-defensive': 'Can any of these guarded operations actually fail, or is this AI being overly cautious?',
+  'verbose-comments': 'Do these comments explain intent, or just restate the code?',
+  'over-abstraction': 'Will there ever be a second implementation, or would a plain function do?',
+  'naming-chaos': 'Do these names follow the conventions used elsewhere in the codebase?',
+  'import-bloat': 'Are all of these imports needed, and could they be consolidated?',
+  'monolithic-function': 'Could this be split into smaller pieces that are easier to review and test?',
+  'catch-all-error': 'What should actually happen when this fails - is logging and continuing correct?'
+};
+
+/**
+ * Detect AI-typical patterns in the added lines of a hunk
+ */
+export function analyzePatterns(hunk: DiffHunk): PatternAnalysis {
+  const lines = getAddedLines(hunk);
+  const detectors: PatternDetector[] = [
+    detectOverDefensive,
+    detectVerboseComments,
+    detectOverAbstraction,
+    detectNamingChaos,
+    detectImportBloat,
+    detectMonolithicFunction,
+    detectCatchAllError
+  ];
+
+  const patternsFound = detectors
+    .map(detect => detect(lines, hunk.filename))
+    .filter((match): match is PatternMatch => match !== null);
+
+  return {
+    patternsFound,
+    overallAiLikelihood: estimateHunkLikelihood(hunk, patternsFound).level,
+    keyQuestion: patternsFound.length > 0 ? KEY_QUESTIONS[patternsFound[0].type] : undefined
+  };
+}
+
+/**
+ * Nested try blocks and redundant null/undefined guards
+ */
+function detectOverDefensive(lines: NumberedLine[]): PatternMatch | null {
+  const flagged: number[] = [];
+  let openTries = 0;
+
+  for (const { line, text } of lines) {
+    const code = stripStringsAndComments(text);
+    if (/\btry\s*\{/.test(code)) {
+      if (openTries > 0) flagged.push(line);
+      openTries++;
+    }
+    if (/\bcatch\b/.test(code) && openTries > 0) {
+      openTries--;
+    }
+    if (/(\w+)\s*===?\s*null\s*\|\|\s*\1\s*===?\s*undefined/.test(code) ||
+        /(\w+)\s*===?\s*undefined\s*\|\|\s*\1\s*===?\s*null/.test(code)) {
+      flagged.push(line);
+    }
+  }
+
+  if (flagged.length < 2) return null;
+
+  return {
+    type: 'over-defensive',
+    lines: flagged,
+    issue: `${flagged.length} nested try blocks or redundant null/undefined guards`,
+    simplerAlternative: 'Use a single try/catch at the boundary where errors can be handled, and `x == null` or optional chaining instead of repeated guards.'
+  };
+}
+
+/**
+ * Comments that restate the code they sit above
+ */
+function detectVerboseComments(lines: NumberedLine[]): PatternMatch | null {
+  const flagged = lines
+    .filter(({ text }) => OBVIOUS_COMMENT.test(text) || restatesParam(text) || /@returns?\s+(A |An |The )?(boolean|string|number|void)\b/i.test(text))
+    .map(({ line }) => line);
+
+  const commentCount = lines.filter(({ text }) => isCommentLine(text)).length;
+  const codeCount = lines.filter(({ text }) => text.trim() && !isCommentLine(text)).length;
+
+  if (flagged.length < 3 && !(commentCount >= 5 && commentCount > codeCount * 0.6)) {
+    return null;
+  }
+
+  return {
+    type: 'verbose-comments',
+    lines: flagged.length > 0 ? flagged : lines.filter(({ text }) => isCommentLine(text)).map(({ line }) => line),
+    issue: `${flagged.length || commentCount} comments describe what the code does rather than why`,
+    simplerAlternative: 'Delete comments that restate the code; keep only those explaining intent or non-obvious decisions.'
+  };
+}
+
+function restatesParam(text: string): boolean {
+  const match = text.match(/@param\s+(\w+)\s*-?\s*(?:The|A|An)\s+(\w+)/i);
+  return match !== null && match[1].toLowerCase() === match[2].toLowerCase();
+}
+
+/**
+ * Interfaces, abstract bases and factories wrapping simple logic
+ */
+function detectOverAbstraction(lines: NumberedLine[]): PatternMatch | null {
+  const flagged = lines
+    .filter(({ text }) => {
+      if (isCommentLine(text)) return false;
+      const code = stripStringsAndComments(text);
+      return /\babstract\s+class\b/.test(code) ||
+        /\binterface\s+I[A-Z]\w*/.test(code) ||
+        /\bclass\s+\w*(Factory|Impl|Manager|Strategy|Provider|Builder|Base)\b/.test(code);
+    })
+    .map(({ line }) => line);
+
+  if (flagged.length < 2) return null;
+
+  return {
+    type: 'over-abstraction',
+    lines: flagged,
+    issue: `${flagged.length} abstraction layers (interfaces, abstract bases, factories) for a single implementation`,
+    simplerAlternative: 'Export a plain function until a second implementation actually exists.'
+  };
+}
+
+/**
+ * Very long descriptive names mixed with generic ones
+ */
+function detectNamingChaos(lines: NumberedLine[]): PatternMatch | null {
+  const longNames: number[] = [];
+  const genericNames: number[] = [];
+
+  for (const { line, text } of lines) {
+    const code = stripStringsAndComments(text);
+    for (const match of code.matchAll(/\b(?:const|let|var|function)\s+(\w+)/g)) {
+      const name = match[1];
+      if (name.length >= LONG_NAME_LENGTH) longNames.push(line);
+      if (GENERIC_NAMES.has(name.toLowerCase())) genericNames.push(line);
+    }
+  }
+
+  if (longNames.length < 2 || genericNames.length < 2) return null;
+
+  return {
+    type: 'naming-chaos',
+    lines: [...new Set([...longNames, ...genericNames])].sort((a, b) => a - b),
+    issue: `Mixes ${longNames.length} very long names with ${genericNames.length} generic ones (data, temp, result...)`,
+    simplerAlternative: 'Pick short, domain-specific names and use them consistently.'
+  };
+}
+
+/**
+ * Repeated imports from one module or an unusually long import list
+ */
+function detectImportBloat(lines: NumberedLine[]): PatternMatch | null {
+  const byModule = new Map<string, number[]>();
+
+  for (const { line, text } of lines) {
+    const match = text.match(/^\s*import\s+(?:.+\s+from\s+)?['"]([^'"]+)['"]/);
+    if (!match) continue;
+    byModule.set(match[1], [...(byModule.get(match[1]) || []), line]);
+  }
+
+  const duplicates = [...byModule.entries()].filter(([, importLines]) => importLines.length > 1);
+  const total = [...byModule.values()].reduce((sum, importLines) => sum + importLines.length, 0);
+
+  if (duplicates.length > 0) {
+    return {
+      type: 'import-bloat',
+      lines: duplicates.flatMap(([, importLines]) => importLines).sort((a, b) => a - b),
+      issue: `Imports from ${duplicates.map(([module]) => `'${module}'`).join(', ')} are split across multiple statements`,
+      simplerAlternative: 'Combine imports from the same module into a single statement.'
+    };
+  }
+
+  if (total > IMPORT_BLOAT_COUNT) {
+    return {
+      type: 'import-bloat',
+      lines: [...byModule.values()].flat(),
+      issue: `${total} imports added in one change`,
+      simplerAlternative: 'Check that every import is used; a long import list often means the module does too much.'
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Single functions or components doing too much
+ */
+function detectMonolithicFunction(lines: NumberedLine[], filename: string): PatternMatch | null {
+  const spans = isTypeScriptFile(filename) ? findTypeScriptFunctionSpans(filename, lines) : findFunctionSpans(lines);
+  for (const span of spans) {
+    const body = lines.slice(span.startIndex, span.endIndex + 1);
+    const stateHooks = body.filter(({ text }) => /\buseState\s*[<(]/.test(text)).length;
+
+    if (body.length > MONOLITHIC_LINE_COUNT || stateHooks > MONOLITHIC_STATE_HOOKS) {
+      return {
+        type: 'monolithic-function',
+        lines: [lines[span.startIndex].line, lines[span.endIndex].line],
+        issue: `\`${span.name}\` spans ${body.length} lines${stateHooks > 0 ? ` with ${stateHooks} state hooks` : ''}`,
+        simplerAlternative: 'Extract data fetching, state management and rendering into separate functions, hooks or components.'
+      };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Catch blocks that only log (or swallow) the error
+ */
+function detectCatchAllError(lines: NumberedLine[]): PatternMatch | null {
+  const flagged: number[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    const code = stripStringsAndComments(lines[i].text);
+    if (!/\bcatch\s*(\([^)]*\))?\s*\{/.test(code)) continue;
+
+    const body: string[] = [];
+    let depth = 0;
+    for (let j = i; j < lines.length; j++) {
+      const text = stripStringsAndComments(lines[j].text);
+      const segment = j === i ? text.slice(text.indexOf('catch')) : text;
+      for (const char of segment) {
+        if (char === '{') depth++;
+        else if (char === '}') depth--;
+      }
+      if (j > i) body.push(text.trim());
+      if (depth <= 0) break;
+    }
+
+    const statements = body.filter(text => text && text !== '}' && !text.startsWith('}'));
+    const rethrows = statements.some(text => /\bthrow\b/.test(text));
+    const onlyLogs = statements.every(text => /^(console\.\w+\(|return\b|set\w*Error\()/.test(text));
+
+    if (!rethrows && onlyLogs) {
+      flagged.push(lines[i].line);
+    }
+  }
+
+  if (flagged.length === 0) return null;
+
+  return {
+    type: 'catch-all-error',
+    lines: flagged,
+    issue: `${flagged.length} catch block${flagged.length === 1 ? '' : 's'} log or swallow the error without handling it`,
+    simplerAlternative: 'Let unexpected errors propagate, and only catch the specific failures you can recover from.'
+  };
+}
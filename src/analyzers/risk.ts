@@ -0,0 +1,58 @@
+/**
+ * Review risk - a local score that decides which hunks get AI review under --max-hunks
+ */
+
+import { ComplexityThresholds, DiffHunk, HunkRisk } from '../types.js';
+import { isTestFile } from '../parsers/diff.js';
+import { analyzeComplexity } from './complexity.js';
+
+// Paths where a bug is a security or data problem
+const SENSITIVE_PATH = /auth|login|logout|session|passw|crypt|secret|token|permission|oauth|saml|jwt|sql|query|migration|payment|billing|checkout|security|sanitiz|validat|upload/i;
+
+// Files that describe rather than execute
+const DOC_FILE = /\.(md|mdx|rst|txt|adoc)$|(^|\/)(LICENSE|CHANGELOG|AUTHORS)[^/]*$/i;
+const CONFIG_FILE = /\.(json|ya?ml|toml|ini|cfg|conf|env|properties)$/i;
+
+// Added code that handles untrusted input or runs commands
+const DANGEROUS_CALLS: Array<[RegExp, string]> = [
+  [/\b(SELECT\s.+\sFROM|INSERT\s+INTO|UPDATE\s+\w+\s+SET|DELETE\s+FROM)\b/i, 'raw SQL'],
+  [/(?<![.\w])(eval|exec|execSync|spawn|system|popen)\s*\(|child_process|subprocess|new Function\(/, 'code or command execution'],
+  [/innerHTML|dangerouslySetInnerHTML|document\.write|v-html/, 'raw HTML'],
+  [/\b(createHash|createCipher\w*|randomBytes|Math\.random|md5|sha1|bcrypt|hmac)\b/i, 'crypto or randomness']
+];
+
+// Removed lines that looked like a guard
+const VALIDATION = /\b(validate|sanitize|escape|assert|verify|authorize|authenticate|isValid\w*|check\w*)\s*\(|throw\s+new\s+\w*Error|if\s*\(\s*!/;
+
+/**
+ * Score a hunk from its path, size, content and complexity; no API calls
+ */
+export function scoreRisk(hunk: DiffHunk, thresholds?: ComplexityThresholds): HunkRisk {
+  const reasons: string[] = [];
+  let score = 0;
+  const add = (points: number, reason: string) => {
+    score += points;
+    reasons.push(reason);
+  };
+
+  if (SENSITIVE_PATH.test(hunk.filename)) add(3, 'security-sensitive path');
+  if (isTestFile(hunk.filename)) add(-3, 'test file');
+  if (DOC_FILE.test(hunk.filename)) add(-3, 'documentation');
+  else if (CONFIG_FILE.test(hunk.filename)) add(-1, 'config file');
+
+  const added = hunk.additions.join('\n');
+  for (const [pattern, description] of DANGEROUS_CALLS) {
+    if (pattern.test(added)) add(2, description);
+  }
+
+  const removedGuards = hunk.deletions.filter(line => VALIDATION.test(line)).length;
+  if (removedGuards > 0) add(2 + Math.min(removedGuards, 3), `validation removed (${removedGuards} lines)`);
+
+  // Bigger changes hide more, with diminishing returns
+  if (hunk.additions.length > 0) add(Math.round(Math.log2(hunk.additions.length + 1) * 5) / 10, `${hunk.additions.length} added lines`);
+
+  const complexity = analyzeComplexity(hunk, thresholds).score;
+  if (complexity >= 3) add(Math.round(complexity * 3) / 10, `complexity ${complexity}/10`);
+
+  return { score: Math.round(score * 10) / 10, reasons };
+}
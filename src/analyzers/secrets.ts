@@ -0,0 +1,276 @@
+/**
+ * Local secret scanner - finds credentials in a hunk and redacts them before
+ * anything is sent to the AI provider
+ */
+
+import { getAddedLines } from '../parsers/code.js';
+import { deriveHunkText } from '../parsers/diff.js';
+import { DiffHunk, SecretFinding, SecretKind } from '../types.js';
+
+interface SecretRule {
+  kind: SecretKind;
+  label: string;
+  /** Global regex; when `group` is set only that capture is the secret */
+  pattern: RegExp;
+  group?: number;
+  /** Extra check on the secret and the full match */
+  accept?: (secret: string, match: RegExpMatchArray, filename: string) => boolean;
+}
+
+const SENSITIVE_NAME = '[A-Za-z0-9_.-]*(?:secret|token|passw(?:or)?d|pwd|api[_-]?key|access[_-]?key|private[_-]?key|credential|auth)[A-Za-z0-9_.-]*';
+
+const RULES: SecretRule[] = [
+  {
+    kind: 'private-key',
+    label: 'Private key',
+    pattern: /-----BEGIN [A-Z0-9 ]*PRIVATE KEY( BLOCK)?-----/g
+  },
+  {
+    kind: 'aws-access-key',
+    label: 'AWS access key ID',
+    pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g
+  },
+  {
+    kind: 'aws-secret-key',
+    label: 'AWS secret access key',
+    pattern: /aws_?secret_?(?:access_?)?key["']?\s*[:=]\s*["']?([A-Za-z0-9/+=]{40})\b/gi,
+    group: 1
+  },
+  {
+    kind: 'jwt',
+    label: 'JSON Web Token',
+    pattern: /\beyJ[A-Za-z0-9_-]{8,}\.eyJ[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}/g
+  },
+  {
+    kind: 'env-assignment',
+    label: 'Credential assignment',
+    // A quoted literal (key: "value", key = 'value') anywhere, KEY=value in .env files,
+    // or unquoted key: value / key=value in other config files
+    pattern: new RegExp(`\\b${SENSITIVE_NAME}["']?\\s*[:=]\\s*(["']?)([^\\s"'\`#,;]{8,})\\1`, 'gi'),
+    group: 2,
+    accept: (secret, match, filename) => !isPlaceholder(secret) &&
+      (match[1] !== '' || isEnvFile(filename) || (isConfigFile(filename) && !isReference(secret)))
+  },
+  {
+    kind: 'high-entropy',
+    label: 'High-entropy string',
+    pattern: /["'`]([A-Za-z0-9+/=_-]{24,})["'`]/g,
+    group: 1,
+    accept: secret => isHighEntropy(secret)
+  },
+  {
+    kind: 'high-entropy',
+    label: 'High-entropy string',
+    // Unquoted values in config files, whatever the key is called
+    pattern: /[:=][ \t]*([A-Za-z0-9+/=_-]{24,})[ \t]*(?:#.*)?$/g,
+    group: 1,
+    accept: (secret, _match, filename) => (isEnvFile(filename) || isConfigFile(filename)) && isHighEntropy(secret)
+  }
+];
+
+const PRIVATE_KEY_BEGIN = /-----BEGIN [A-Z0-9 ]*PRIVATE KEY( BLOCK)?-----/;
+const PRIVATE_KEY_END = /-----END [A-Z0-9 ]*PRIVATE KEY( BLOCK)?-----/;
+
+// PEM bodies are base64 wrapped at 64 columns; the last line may be shorter and padded
+const PEM_LINE = /^\s*[A-Za-z0-9+/]{64}\s*$/;
+const PEM_LAST_LINE = /^\s*[A-Za-z0-9+/]+={0,2}\s*$/;
+
+const LABELS = Object.fromEntries(RULES.map(rule => [rule.kind, rule.label])) as Record<SecretKind, string>;
+
+const SUGGESTION = 'Move it to a secret store or environment variable and rotate it - it is now in git history.';
+
+// Email addresses are personal data: redacted before sending, but not reported as findings
+const EMAIL = /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g;
+
+/**
+ * Find credentials on the hunk's added lines. Matches of any `allowlist` regex are ignored.
+ */
+export function scanSecrets(hunk: DiffHunk, allowlist: string[] = []): SecretFinding[] {
+  const allowed = compileAllowlist(allowlist);
+  const findings: SecretFinding[] = [];
+
+  for (const { line, text } of getAddedLines(hunk)) {
+    for (const { kind, secret } of findSecrets(text, hunk.filename, allowed)) {
+      findings.push({
+        kind,
+        line,
+        issue: kind === 'private-key'
+          ? `${LABELS[kind]} committed in plain text`
+          : `${LABELS[kind]} (${mask(secret)}) committed in plain text`,
+        suggestion: SUGGESTION
+      });
+    }
+  }
+
+  // Key material whose BEGIN line is outside the hunk: one finding per run of added lines
+  const keyLines = orphanKeyLines(hunk.lines.map(line => line.text));
+  hunk.lines.forEach((line, i) => {
+    const continuesRun = keyLines.has(i - 1) && hunk.lines[i - 1].kind === 'add';
+    if (line.kind === 'add' && keyLines.has(i) && !continuesRun) {
+      findings.push({
+        kind: 'private-key',
+        line: line.newLine as number,
+        issue: `${LABELS['private-key']} committed in plain text`,
+        suggestion: SUGGESTION
+      });
+    }
+  });
+
+  return findings.sort((a, b) => a.line - b.line);
+}
+
+/**
+ * Copy of `hunk` with secrets and email addresses replaced by [REDACTED:<kind>]
+ * in everything that is sent to the provider. Line counts never change.
+ */
+export function redactHunk(hunk: DiffHunk, allowlist: string[] = []): DiffHunk {
+  const allowed = compileAllowlist(allowlist);
+  const redacted = redactLines(hunk.lines.map(line => line.text), hunk.filename, allowed);
+
+  return {
+    ...hunk,
+    ...deriveHunkText(hunk.lines.map((line, i) => ({ ...line, text: redacted[i] }))),
+    context: redactLines(hunk.context.split('\n'), hunk.filename, allowed).join('\n')
+  };
+}
+
+function redactLines(lines: string[], filename: string, allowed: RegExp[]): string[] {
+  const keyLines = orphanKeyLines(lines);
+  let inPrivateKey = false;
+
+  return lines.map((line, i) => {
+    let text = line;
+
+    // Everything between BEGIN and END of a private key block is key material,
+    // including body lines whose BEGIN line is before the first of `lines`
+    if (keyLines.has(i)) {
+      return '[REDACTED:private-key]';
+    }
+    if (inPrivateKey) {
+      if (PRIVATE_KEY_END.test(text)) {
+        inPrivateKey = false;
+      } else {
+        return '[REDACTED:private-key]';
+      }
+    }
+
+    for (const { kind, secret } of findSecrets(text, filename, allowed)) {
+      if (kind === 'private-key') {
+        inPrivateKey = !PRIVATE_KEY_END.test(text);
+      }
+      text = text.split(secret).join(`[REDACTED:${kind}]`);
+    }
+    text = text.replace(EMAIL, match => isAllowed(match, allowed) ? match : '[REDACTED:email]');
+
+    return text;
+  });
+}
+
+/**
+ * Indexes of private key body lines whose BEGIN line is not in `lines`: base64
+ * lines running up to an END line, and runs of two or more full 64-column lines
+ */
+function orphanKeyLines(lines: string[]): Set<number> {
+  const keyLines = new Set<number>();
+  let run: number[] = [];
+  let inBlock = false;
+
+  const endRun = (endsKey: boolean) => {
+    const fullWidth = run.filter(i => PEM_LINE.test(lines[i]));
+    (endsKey ? run : fullWidth.length >= 2 ? fullWidth : []).forEach(i => keyLines.add(i));
+    run = [];
+  };
+
+  lines.forEach((text, i) => {
+    // Blocks that start in `lines` are redacted from their BEGIN line
+    if (inBlock) {
+      inBlock = !PRIVATE_KEY_END.test(text);
+    } else if (PRIVATE_KEY_BEGIN.test(text)) {
+      endRun(false);
+      inBlock = !PRIVATE_KEY_END.test(text);
+    } else if (PEM_LAST_LINE.test(text)) {
+      run.push(i);
+    } else {
+      endRun(PRIVATE_KEY_END.test(text));
+    }
+  });
+  endRun(false);
+
+  return keyLines;
+}
+
+function findSecrets(text: string, filename: string, allowed: RegExp[]): Array<{ kind: SecretKind; secret: string }> {
+  const found: Array<{ kind: SecretKind; secret: string }> = [];
+
+  for (const rule of RULES) {
+    for (const match of text.matchAll(rule.pattern)) {
+      const secret = rule.group !== undefined ? match[rule.group] : match[0];
+      if (!secret || isAllowed(secret, allowed) || isAllowed(match[0], allowed)) continue;
+      if (rule.accept && !rule.accept(secret, match, filename)) continue;
+      // One finding per secret, from the most specific rule
+      if (found.some(existing => existing.secret.includes(secret) || secret.includes(existing.secret))) continue;
+      found.push({ kind: rule.kind, secret });
+    }
+  }
+
+  return found;
+}
+
+function compileAllowlist(allowlist: string[]): RegExp[] {
+  return allowlist.map(source => new RegExp(source));
+}
+
+function isAllowed(value: string, allowed: RegExp[]): boolean {
+  return allowed.some(pattern => pattern.test(value));
+}
+
+function isEnvFile(filename: string): boolean {
+  return /(^|\/)\.env(\.[\w-]+)?$/.test(filename);
+}
+
+/**
+ * YAML, INI, TOML and properties files, where values are often unquoted
+ */
+function isConfigFile(filename: string): boolean {
+  return /\.(ya?ml|ini|cfg|conf|properties|toml)$/i.test(filename);
+}
+
+/**
+ * Unquoted config values that name something rather than hold it, like `secretName: db-credentials`
+ * or `token_url: https://auth.example.com/token`
+ */
+function isReference(value: string): boolean {
+  return /^[A-Za-z]+([_.-][A-Za-z]+)*$/.test(value) || /^\w+:\/\/[^@]*$/.test(value);
+}
+
+function isHighEntropy(value: string): boolean {
+  return /[a-z]/.test(value) && /[A-Z]/.test(value) && /\d/.test(value) && shannonEntropy(value) >= 4.2;
+}
+
+function isPlaceholder(value: string): boolean {
+  return /^(x+|\*+|\.+|<.*>|\$\{.*\}|\$[A-Z_]+|%\w+%|\{\{.*\}\}|changeme|password|secret|example\w*|your[_-]\w*|dummy\w*|test\w*|placeholder\w*|null|undefined|none|true|false)$/i.test(value) ||
+    /process\.env|os\.environ|getenv|ENV\[/i.test(value);
+}
+
+/**
+ * Bits of entropy per character; random base64 is close to 6, English text near 4
+ */
+function shannonEntropy(value: string): number {
+  const counts = new Map<string, number>();
+  for (const char of value) {
+    counts.set(char, (counts.get(char) ?? 0) + 1);
+  }
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const p = count / value.length;
+    entropy -= p * Math.log2(p);
+  }
+  return entropy;
+}
+
+/**
+ * Enough of a secret to find it again, never enough to use it
+ */
+function mask(secret: string): string {
+  return secret.length <= 8 ? '****' : `${secret.slice(0, 4)}****`;
+}
@@ -0,0 +1,100 @@
+/**
+ * "What Changed & Why" analyzer - per-hunk WHAT / WHY / WATCH summaries
+ */
+
+import { complete, UsageMeter } from '../api/provider.js';
+import { formatChange, surroundingCode } from '../api/review.js';
+import { ReviewApiError } from '../api/retry.js';
+import { DiffHunk, SummaryAnalysis } from '../types.js';
+
+const MAX_WATCH_ITEMS = 3;
+
+export const SUMMARY_MAX_TOKENS = 400;
+
+// Bump when the summary prompt changes so cached results are not reused
+export const SUMMARY_PROMPT_VERSION = 3;
+
+/**
+ * Summarize a single hunk for a reviewer. A response that isn't a complete summary
+ * throws an 'invalid-response' ReviewApiError, so the hunk is reported instead of summarized.
+ */
+export async function analyzeSummary(
+  hunk: DiffHunk,
+  model: string,
+  meter?: UsageMeter
+): Promise<SummaryAnalysis> {
+  const text = await complete(buildSummaryPrompt(hunk), model, SUMMARY_MAX_TOKENS, undefined, meter);
+
+  const jsonMatch = text.match(/\{[\s\S]*\}/);
+  let parsed: unknown;
+  try {
+    parsed = jsonMatch ? JSON.parse(jsonMatch[0]) : undefined;
+  } catch {
+    parsed = undefined;
+  }
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new ReviewApiError('Invalid AI response: summary is not a JSON object', 'invalid-response');
+  }
+  return normalizeSummary(parsed as Record<string, unknown>);
+}
+
+/**
+ * Combine the summaries of a hunk's chunks into one summary
+ */
+export function mergeSummaries(summaries: SummaryAnalysis[]): SummaryAnalysis {
+  if (summaries.length === 1) {
+    return summaries[0];
+  }
+  return {
+    what: [...new Set(summaries.map(summary => summary.what))].join(' '),
+    why: [...new Set(summaries.map(summary => summary.why))].join(' '),
+    watch: [...new Set(summaries.flatMap(summary => summary.watch))].slice(0, MAX_WATCH_ITEMS)
+  };
+}
+
+/**
+ * Build the WHAT / WHY / WATCH prompt for a hunk
+ */
+export function buildSummaryPrompt(hunk: DiffHunk): string {
+  const sections: string[] = [];
+
+  if (hunk.context.trim()) {
+    sections.push(`SURROUNDING CODE (new version of the file):\n\`\`\`\n${surroundingCode(hunk)}\n\`\`\``);
+  }
+  sections.push(
+    `CHANGE (new-file line numbers on the left; "+" added, "-" removed, unmarked lines unchanged):\n` +
+    `\`\`\`\n${formatChange(hunk)}\n\`\`\``
+  );
+
+  return `You're helping a human review a change to ${hunk.filename} (lines ${hunk.startLine}-${hunk.endLine}).
+
+${sections.join('\n\n')}
+
+Explain this change so the reviewer understands it before reading the code.
+
+Respond in JSON:
+{
+  "what": "What behavior changed (1 sentence, factual)",
+  "why": "The likely intent or purpose of the change (1 sentence)",
+  "watch": ["Specific thing the reviewer should verify (1-3 items)"]
+}`;
+}
+
+/**
+ * Coerce a parsed model response into a SummaryAnalysis. Missing fields fail the
+ * summary rather than being filled in, so a made-up answer is never cached.
+ */
+function normalizeSummary(parsed: Record<string, unknown>): SummaryAnalysis {
+  const text = (field: unknown) => typeof field === 'string' ? field.trim() : '';
+  const what = text(parsed.what);
+  const why = text(parsed.why);
+  if (!what || !why) {
+    throw new ReviewApiError('Invalid AI response: summary needs non-empty "what" and "why"', 'invalid-response');
+  }
+
+  const watch = Array.isArray(parsed.watch)
+    ? parsed.watch.filter((item): item is string => typeof item === 'string' && item.trim() !== '')
+    : [];
+
+  return { what, why, watch: watch.slice(0, MAX_WATCH_ITEMS) };
+}
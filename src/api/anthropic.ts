@@ -0,0 +1,46 @@
+/**
+ * Anthropic Messages API provider (the default)
+ */
+
+import Anthropic from '@anthropic-ai/sdk';
+import { CompletionRequest, CompletionResponse, ProviderOptions, ReviewProvider } from './provider.js';
+
+export function createAnthropicProvider(options: ProviderOptions = {}): ReviewProvider {
+  const apiKey = options.apiKey || process.env.ANTHROPIC_API_KEY;
+  if (!apiKey) {
+    throw new Error('ANTHROPIC_API_KEY is required');
+  }
+  // Retries are handled by withRetry so backoff and retry-after are applied consistently
+  const client = new Anthropic({ apiKey, maxRetries: 0, timeout: options.timeoutMs });
+
+  return {
+    name: 'anthropic',
+    async complete({ prompt, model, maxTokens, tool }: CompletionRequest): Promise<CompletionResponse> {
+      const response = await client.messages.create({
+        model,
+        max_tokens: maxTokens,
+        messages: [{ role: 'user', content: prompt }],
+        ...(tool
+          ? {
+              tools: [{ name: tool.name, description: tool.description, input_schema: tool.inputSchema as Anthropic.Tool.InputSchema }],
+              tool_choice: { type: 'tool' as const, name: tool.name }
+            }
+          : {})
+      });
+      return { ...parseAnthropicMessage(response), raw: response };
+    }
+  };
+}
+
+/**
+ * The tool input (or else the text) and usage of a Messages API response
+ */
+export function parseAnthropicMessage(message: Anthropic.Message): CompletionResponse {
+  const usage = { inputTokens: message.usage.input_tokens, outputTokens: message.usage.output_tokens };
+  const toolUse = message.content.find(block => block.type === 'tool_use');
+  if (toolUse?.type === 'tool_use') {
+    return { text: JSON.stringify(toolUse.input), usage };
+  }
+  const text = message.content.find(block => block.type === 'text');
+  return { text: text?.type === 'text' ? text.text : '', usage };
+}
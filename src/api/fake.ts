@@ -0,0 +1,65 @@
+/**
+ * Rules-based fake provider - canned responses for demos and offline tests
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import { AIReview } from './review.js';
+import { CompletionRequest, CompletionResponse, ReviewProvider } from './provider.js';
+
+export interface FakeRule {
+  match: string | RegExp;   // tested against the prompt; strings are regex sources
+  response: string | object; // strings are returned as-is, anything else as JSON
+}
+
+// A clean review with a summary, so the summary analyzer also gets what/why fields
+export const DEFAULT_FAKE_RESPONSE = {
+  language: 'Unknown',
+  summary: 'Canned review from the fake provider.',
+  critical: [],
+  what: 'Canned summary from the fake provider',
+  why: 'No model was called',
+  watch: []
+} satisfies AIReview & Record<string, unknown>;
+
+/**
+ * Answer each prompt with the response of the first matching rule, or `fallback`
+ */
+export function createFakeProvider(
+  rules: FakeRule[] = [],
+  fallback: string | object = DEFAULT_FAKE_RESPONSE
+): ReviewProvider {
+  const compiled = rules.map(rule => ({
+    pattern: typeof rule.match === 'string' ? new RegExp(rule.match) : rule.match,
+    response: rule.response
+  }));
+
+  return {
+    name: 'fake',
+    async complete({ prompt }: CompletionRequest): Promise<CompletionResponse> {
+      const rule = compiled.find(candidate => candidate.pattern.test(prompt));
+      const response = rule ? rule.response : fallback;
+      return { text: typeof response === 'string' ? response : JSON.stringify(response) };
+    }
+  };
+}
+
+/**
+ * Read fake rules from a JSON file: an array of { "match": "<regex>", "response": ... }
+ */
+export function loadFakeRules(path: string): FakeRule[] {
+  if (!existsSync(path)) {
+    throw new Error(`Fake rules file not found: ${path}`);
+  }
+
+  const raw: unknown = JSON.parse(readFileSync(path, 'utf-8'));
+  if (!Array.isArray(raw)) {
+    throw new Error(`${path}: expected an array of rules`);
+  }
+  return raw.map((rule, index) => {
+    const { match, response } = (rule ?? {}) as Partial<FakeRule>;
+    if (typeof match !== 'string' || response === undefined || response === null) {
+      throw new Error(`${path}: rule ${index} needs a "match" string and a "response"`);
+    }
+    return { match, response };
+  });
+}
@@ -0,0 +1,96 @@
+/**
+ * Record live provider traffic to fixture files and replay it offline
+ */
+
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import Anthropic from '@anthropic-ai/sdk';
+import { parseAnthropicMessage } from './anthropic.js';
+import { ChatCompletionResponse, parseChatCompletion } from './openai.js';
+import { CompletionRequest, CompletionResponse, ReviewProvider } from './provider.js';
+import { ReviewApiError } from './retry.js';
+
+export interface Fixture {
+  request: CompletionRequest;
+  provider: string;     // provider that produced the response
+  body?: unknown;       // the API's response body, parsed again on replay
+  response?: string;    // the reply text, for providers with no wire format (fake)
+  usage?: CompletionResponse['usage'];
+  recordedAt: string;
+}
+
+// Replay runs a recorded body through the same parsing as a live response
+const WIRE_FORMATS: Record<string, (body: unknown) => CompletionResponse> = {
+  anthropic: body => parseAnthropicMessage(body as Anthropic.Message),
+  openai: body => parseChatCompletion(body as ChatCompletionResponse)
+};
+
+/**
+ * Fixture file name for a request. Independent of the provider, so a recording
+ * made against one backend replays for any other.
+ */
+export function fixtureName(request: CompletionRequest): string {
+  const hash = createHash('sha256')
+    .update(JSON.stringify([request.model, request.maxTokens, request.tool?.name ?? null, request.prompt]))
+    .digest('hex');
+  return `${hash.slice(0, 16)}.json`;
+}
+
+/**
+ * Pass requests through to `inner` and save every successful exchange under `dir`
+ */
+export function createRecordingProvider(inner: ReviewProvider, dir: string): ReviewProvider {
+  mkdirSync(dir, { recursive: true });
+
+  return {
+    name: `record(${inner.name})`,
+    async complete(request: CompletionRequest): Promise<CompletionResponse> {
+      const response = await inner.complete(request);
+      const fixture: Fixture = {
+        request,
+        provider: inner.name,
+        ...(response.raw !== undefined ? { body: response.raw } : { response: response.text, usage: response.usage }),
+        recordedAt: new Date().toISOString()
+      };
+      // Pretty-printed so fixture changes are reviewable in a diff
+      writeFileSync(join(dir, fixtureName(request)), JSON.stringify(fixture, null, 2) + '\n');
+      return response;
+    }
+  };
+}
+
+/**
+ * Serve responses recorded by createRecordingProvider; never touches the network
+ */
+export function createReplayProvider(dir: string): ReviewProvider {
+  if (!existsSync(dir)) {
+    throw new Error(`Fixture directory not found: ${dir}`);
+  }
+
+  return {
+    name: 'replay',
+    async complete(request: CompletionRequest): Promise<CompletionResponse> {
+      const path = join(dir, fixtureName(request));
+      if (!existsSync(path)) {
+        // Not retryable: a missing fixture won't appear on the next attempt
+        throw new ReviewApiError(
+          `No recorded response for this request (${path}). Re-record with --record.`,
+          'invalid-request'
+        );
+      }
+      return replayFixture(JSON.parse(readFileSync(path, 'utf-8')) as Fixture, path);
+    }
+  };
+}
+
+function replayFixture(fixture: Fixture, path: string): CompletionResponse {
+  if (fixture.body === undefined) {
+    return { text: fixture.response ?? '', usage: fixture.usage };
+  }
+  const parse = WIRE_FORMATS[fixture.provider];
+  if (!parse) {
+    throw new ReviewApiError(`Can't replay a response body from provider "${fixture.provider}" (${path})`, 'invalid-request');
+  }
+  return parse(fixture.body);
+}
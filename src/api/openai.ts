@@ -0,0 +1,80 @@
+/**
+ * OpenAI-compatible chat completions provider.
+ * Also covers self-hosted servers that speak the same API (Ollama, llama.cpp, vLLM).
+ */
+
+import { CompletionRequest, CompletionResponse, ProviderOptions, ReviewProvider } from './provider.js';
+
+export const DEFAULT_OPENAI_BASE_URL = 'https://api.openai.com/v1';
+
+export interface ChatCompletionResponse {
+  choices?: Array<{
+    message?: {
+      content?: string | null;
+      tool_calls?: Array<{ function?: { arguments?: string } }>;
+    };
+  }>;
+  usage?: { prompt_tokens?: number; completion_tokens?: number };
+}
+
+export function createOpenAIProvider(options: ProviderOptions = {}): ReviewProvider {
+  const baseUrl = (options.baseUrl || process.env.OPENAI_BASE_URL || DEFAULT_OPENAI_BASE_URL).replace(/\/+$/, '');
+  const apiKey = options.apiKey || process.env.OPENAI_API_KEY;
+  // Local servers usually don't check keys, but the hosted API does
+  if (!apiKey && baseUrl === DEFAULT_OPENAI_BASE_URL) {
+    throw new Error('OPENAI_API_KEY is required (or set baseUrl to a local server)');
+  }
+
+  return {
+    name: 'openai',
+    async complete({ prompt, model, maxTokens, tool }: CompletionRequest): Promise<CompletionResponse> {
+      const response = await fetch(`${baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'content-type': 'application/json',
+          ...(apiKey ? { authorization: `Bearer ${apiKey}` } : {})
+        },
+        body: JSON.stringify({
+          model,
+          max_tokens: maxTokens,
+          messages: [{ role: 'user', content: prompt }],
+          ...(tool
+            ? {
+                tools: [{
+                  type: 'function',
+                  function: { name: tool.name, description: tool.description, parameters: tool.inputSchema }
+                }],
+                tool_choice: { type: 'function', function: { name: tool.name } }
+              }
+            : {})
+        }),
+        signal: options.timeoutMs ? AbortSignal.timeout(options.timeoutMs) : undefined
+      });
+
+      if (!response.ok) {
+        // Shaped like an SDK error so classifyError picks up status and retry-after
+        const body = await response.text().catch(() => '');
+        throw Object.assign(
+          new Error(`${response.status} ${response.statusText}${body ? `: ${body.slice(0, 500)}` : ''}`),
+          { status: response.status, headers: response.headers }
+        );
+      }
+
+      const data = await response.json() as ChatCompletionResponse;
+      return { ...parseChatCompletion(data), raw: data };
+    }
+  };
+}
+
+/**
+ * The tool call arguments (or else the message text) and usage of a chat completion
+ */
+export function parseChatCompletion(data: ChatCompletionResponse): CompletionResponse {
+  const message = data.choices?.[0]?.message;
+  // Some local servers accept tools but still answer in plain text
+  const text = message?.tool_calls?.[0]?.function?.arguments ?? message?.content ?? '';
+  const usage = data.usage?.prompt_tokens !== undefined && data.usage.completion_tokens !== undefined
+    ? { inputTokens: data.usage.prompt_tokens, outputTokens: data.usage.completion_tokens }
+    : undefined;
+  return { text, usage };
+}
@@ -0,0 +1,146 @@
+/**
+ * LLM provider interface - analyzers send prompts here, never to an SDK directly
+ */
+
+import { ProviderName, TokenUsage } from '../types.js';
+import { DEFAULT_RETRY_OPTIONS, RetryOptions, withRetry } from './retry.js';
+import { createAnthropicProvider } from './anthropic.js';
+import { createOpenAIProvider } from './openai.js';
+import { createFakeProvider, loadFakeRules } from './fake.js';
+import { createRecordingProvider, createReplayProvider } from './fixtures.js';
+import { estimateTokens } from '../parsers/chunk.js';
+
+export const PROVIDER_NAMES: ProviderName[] = ['anthropic', 'openai', 'fake'];
+
+export interface CompletionRequest {
+  prompt: string;
+  model: string;
+  maxTokens: number;
+  tool?: ToolSpec;
+}
+
+/**
+ * A tool the model is forced to call. Providers return the tool input as JSON text,
+ * or the plain text reply if the backend doesn't support tools.
+ */
+export interface ToolSpec {
+  name: string;
+  description: string;
+  inputSchema: Record<string, unknown>;   // JSON Schema for the tool input
+}
+
+export interface CompletionResponse {
+  text: string;
+  usage?: TokenUsage;   // omitted when the backend doesn't report it
+  raw?: unknown;        // the backend's response body as received, kept by --record
+}
+
+export interface ReviewProvider {
+  readonly name: string;
+  /** Send a single-turn prompt and return the reply. Errors are classified by withRetry. */
+  complete(request: CompletionRequest): Promise<CompletionResponse>;
+}
+
+/**
+ * Told about every call: `reserve` before it is sent, with its worst-case usage (it may
+ * throw to stop the call), and `record` after, with what it used or undefined if it failed
+ */
+export interface UsageMeter {
+  reserve(estimate: TokenUsage): void;
+  record(estimate: TokenUsage, usage?: TokenUsage): void;
+}
+
+export interface ProviderOptions {
+  apiKey?: string;
+  baseUrl?: string;     // OpenAI-compatible endpoint, e.g. http://localhost:11434/v1 for Ollama
+  timeoutMs?: number;   // per-request timeout
+  maxRetries?: number;
+  fakeRules?: string;   // JSON rules file for the fake provider
+  recordDir?: string;   // save every exchange as a fixture
+  replayDir?: string;   // serve recorded fixtures instead of calling the provider
+}
+
+let provider: ReviewProvider | null = null;
+let retryOptions: RetryOptions = DEFAULT_RETRY_OPTIONS;
+
+/**
+ * Create the named provider and make it the one analyzers use
+ */
+export function initProvider(name: ProviderName, options: ProviderOptions = {}): ReviewProvider {
+  if (options.replayDir) {
+    return setProvider(createReplayProvider(options.replayDir), options);
+  }
+
+  const base = createProvider(name, options);
+  return setProvider(options.recordDir ? createRecordingProvider(base, options.recordDir) : base, options);
+}
+
+function createProvider(name: ProviderName, options: ProviderOptions): ReviewProvider {
+  switch (name) {
+    case 'anthropic':
+      return createAnthropicProvider(options);
+    case 'openai':
+      return createOpenAIProvider(options);
+    case 'fake':
+      return createFakeProvider(options.fakeRules ? loadFakeRules(options.fakeRules) : []);
+    default:
+      throw new Error(`Unknown provider "${name}". Expected one of: ${PROVIDER_NAMES.join(', ')}`);
+  }
+}
+
+/**
+ * Use an already-constructed provider (e.g. a custom backend)
+ */
+export function setProvider(next: ReviewProvider, options: Pick<ProviderOptions, 'maxRetries'> = {}): ReviewProvider {
+  provider = next;
+  retryOptions = { ...DEFAULT_RETRY_OPTIONS, maxRetries: options.maxRetries ?? DEFAULT_RETRY_OPTIONS.maxRetries };
+  return next;
+}
+
+/**
+ * Get the active provider (throws if not initialized)
+ */
+function getProvider(): ReviewProvider {
+  if (!provider) {
+    throw new Error('Review provider not initialized. Call initProvider first.');
+  }
+  return provider;
+}
+
+/**
+ * Send a single-turn prompt to the active provider, retrying transient failures.
+ * Usage goes to `meter`; backends that don't report it are estimated from the text.
+ */
+export async function complete(
+  prompt: string,
+  model: string,
+  maxTokens: number,
+  tool?: ToolSpec,
+  meter?: UsageMeter
+): Promise<string> {
+  const active = getProvider();
+  const estimate = estimateCall(prompt, maxTokens, tool);
+  meter?.reserve(estimate);
+
+  let usage: TokenUsage | undefined;
+  try {
+    const response = await withRetry(() => active.complete({ prompt, model, maxTokens, tool }), retryOptions);
+    usage = response.usage ?? {
+      inputTokens: estimateTokens(prompt),
+      outputTokens: estimateTokens(response.text)
+    };
+    return response.text;
+  } finally {
+    meter?.record(estimate, usage);
+  }
+}
+
+/**
+ * Worst-case usage of one call: the prompt and tool schema in, a full-length answer out
+ */
+export function estimateCall(prompt: string, maxTokens: number, tool?: ToolSpec): TokenUsage {
+  return {
+    inputTokens: estimateTokens(prompt) + (tool ? estimateTokens(JSON.stringify(tool)) : 0),
+    outputTokens: maxTokens
+  };
+}
@@ -0,0 +1,148 @@
+/**
+ * API error classification and retry with exponential backoff
+ */
+
+export type ApiErrorKind =
+  | 'rate-limit'       // 429
+  | 'overloaded'       // 529
+  | 'server'           // other 5xx
+  | 'timeout'
+  | 'network'
+  | 'auth'             // 401 / 403
+  | 'invalid-request'  // other 4xx
+  | 'invalid-response' // model output failed schema validation, even after a repair attempt
+  | 'over-budget'      // not sent: the call could take the run past --budget
+  | 'unknown';
+
+const RETRYABLE_KINDS: ApiErrorKind[] = ['rate-limit', 'overloaded', 'server', 'timeout', 'network'];
+
+export class ReviewApiError extends Error {
+  constructor(
+    message: string,
+    readonly kind: ApiErrorKind,
+    readonly status?: number,
+    readonly retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = 'ReviewApiError';
+  }
+
+  get retryable(): boolean {
+    return RETRYABLE_KINDS.includes(this.kind);
+  }
+}
+
+export interface RetryOptions {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  maxRetries: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000
+};
+
+/**
+ * Run `fn`, retrying retryable failures with exponential backoff and jitter.
+ * A server-provided retry-after wins over the computed delay, up to maxDelayMs.
+ */
+export async function withRetry<T>(
+  fn: () => Promise<T>,
+  options: RetryOptions = DEFAULT_RETRY_OPTIONS
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (e) {
+      const error = classifyError(e);
+      if (!error.retryable || attempt >= options.maxRetries) {
+        throw error;
+      }
+      await sleep(error.retryAfterMs !== undefined
+        ? Math.min(error.retryAfterMs, options.maxDelayMs)
+        : backoffDelay(attempt, options));
+    }
+  }
+}
+
+/**
+ * Map SDK, fetch and network errors onto a ReviewApiError
+ */
+export function classifyError(error: unknown): ReviewApiError {
+  if (error instanceof ReviewApiError) {
+    return error;
+  }
+
+  const details = (typeof error === 'object' && error !== null ? error : {}) as {
+    message?: unknown;
+    status?: unknown;
+    headers?: unknown;
+    code?: unknown;
+    name?: unknown;
+  };
+  const message = typeof details.message === 'string' ? details.message : String(error);
+  const status = typeof details.status === 'number' ? details.status : undefined;
+  const retryAfterMs = parseRetryAfter(details.headers);
+
+  if (status === 429) return new ReviewApiError(message, 'rate-limit', status, retryAfterMs);
+  if (status === 529) return new ReviewApiError(message, 'overloaded', status, retryAfterMs);
+  if (status === 408) return new ReviewApiError(message, 'timeout', status, retryAfterMs);
+  if (status === 401 || status === 403) return new ReviewApiError(message, 'auth', status);
+  if (status !== undefined && status >= 500) return new ReviewApiError(message, 'server', status, retryAfterMs);
+  if (status !== undefined && status >= 400) return new ReviewApiError(message, 'invalid-request', status);
+
+  const name = String(details.name ?? '');
+  const code = String(details.code ?? '');
+  if (/timeout/i.test(name) || /timed? ?out/i.test(message) || code === 'ETIMEDOUT' || name === 'AbortError') {
+    return new ReviewApiError(message, 'timeout');
+  }
+  if (/connection/i.test(name) || ['ECONNRESET', 'ECONNREFUSED', 'ENOTFOUND', 'EAI_AGAIN', 'EPIPE'].includes(code) ||
+      /fetch failed|network|socket hang up/i.test(message)) {
+    return new ReviewApiError(message, 'network');
+  }
+
+  return new ReviewApiError(message, 'unknown', status);
+}
+
+/**
+ * Read retry-after-ms / retry-after (seconds or HTTP date) from SDK or fetch headers
+ */
+function parseRetryAfter(headers: unknown): number | undefined {
+  const get = (name: string): string | undefined => {
+    if (!headers || typeof headers !== 'object') return undefined;
+    if (typeof (headers as { get?: unknown }).get === 'function') {
+      return (headers as { get(name: string): string | null }).get(name) ?? undefined;
+    }
+    const value = (headers as Record<string, unknown>)[name];
+    return typeof value === 'string' ? value : undefined;
+  };
+
+  const retryAfterMs = get('retry-after-ms');
+  if (retryAfterMs !== undefined && Number.isFinite(Number(retryAfterMs))) {
+    return Math.max(0, Number(retryAfterMs));
+  }
+
+  const value = get('retry-after');
+  if (value === undefined) return undefined;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Exponential backoff with "equal jitter": half fixed, half random
+ */
+function backoffDelay(attempt: number, options: RetryOptions): number {
+  const ceiling = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** attempt);
+  return ceiling / 2 + Math.random() * (ceiling / 2);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
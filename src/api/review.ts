@@ -0,0 +1,298 @@
+/**
+ * AI code review prompt and response parsing
+ */
+
+import { DIFF_MARKERS } from '../parsers/diff.js';
+import { DiffHunk } from '../types.js';
+import { complete, ToolSpec, UsageMeter } from './provider.js';
+import { ReviewApiError } from './retry.js';
+
+// Bump when the review prompt changes so cached results are not reused
+export const REVIEW_PROMPT_VERSION = 5;
+
+const CRITICAL_TYPES = ['security', 'crash', 'data-loss', 'performance'] as const;
+
+export interface AIReview {
+  summary: string;      // 1 sentence: what is this PR
+  critical: Array<{
+    type: typeof CRITICAL_TYPES[number];
+    line: number;
+    reportedLine?: number;  // the model's line, when it wasn't an added line and `line` was clamped
+    fileLevel?: boolean;    // the hunk only removes code, so `line` points at no code of its own
+    issue: string;      // Brief description
+    friendlySuggestion: string;  // Polite, helpful suggestion for inline comment
+  }>;
+  language: string;
+}
+
+/**
+ * The model answers through this tool so its output has a declared shape
+ */
+export const REVIEW_TOOL: ToolSpec = {
+  name: 'submit_review',
+  description: 'Submit the code review for this change',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      language: { type: 'string', minLength: 1, description: 'Programming language of the code' },
+      summary: { type: 'string', minLength: 1, description: 'Factual 2-4 sentence summary of what the change does' },
+      critical: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            type: { type: 'string', enum: [...CRITICAL_TYPES] },
+            line: { type: 'integer', minimum: 1, description: 'New-file line number shown before the offending line' },
+            issue: { type: 'string', minLength: 1, description: "Brief what's wrong (1 sentence)" },
+            friendlySuggestion: { type: 'string', minLength: 1, description: 'Specific, actionable fix (1-2 sentences)' }
+          },
+          required: ['type', 'line', 'issue', 'friendlySuggestion']
+        }
+      }
+    },
+    required: ['language', 'summary', 'critical']
+  }
+};
+
+export const REVIEW_MAX_TOKENS = 800;
+
+// Surrounding code beyond this many characters is cut from prompts to bound their size
+const MAX_CONTEXT_CHARS = 6000;
+
+/**
+ * Review code with AI (language agnostic)
+ */
+export async function reviewCode(
+  hunk: DiffHunk,
+  model: string = 'claude-sonnet-4-20250514',
+  meter?: UsageMeter
+): Promise<AIReview> {
+  const prompt = buildReviewPrompt(hunk);
+  let text = await complete(prompt, model, REVIEW_MAX_TOKENS, REVIEW_TOOL, meter);
+  let errors = validateReview(parseResponse(text));
+
+  // One repair attempt: show the model its answer and what was wrong with it
+  if (errors.length > 0) {
+    text = await complete(buildRepairPrompt(prompt, text, errors), model, REVIEW_MAX_TOKENS, REVIEW_TOOL, meter);
+    errors = validateReview(parseResponse(text));
+  }
+  if (errors.length > 0) {
+    throw new ReviewApiError(`Invalid AI response: ${errors.slice(0, 3).join('; ')}`, 'invalid-response');
+  }
+
+  const review = parseResponse(text) as AIReview;
+  return {
+    language: review.language.trim(),
+    summary: review.summary.trim(),
+    critical: review.critical.map(item => ({
+      type: item.type,
+      ...mapReportedLine(item.line, hunk),
+      issue: item.issue.trim(),
+      friendlySuggestion: item.friendlySuggestion.trim()
+    }))
+  };
+}
+
+/**
+ * Build the review prompt for a hunk (the tool schema is sent alongside it)
+ */
+export function buildReviewPrompt(hunk: DiffHunk): string {
+  const surrounding = hunk.context.trim()
+    ? `SURROUNDING CODE (new version of the file, for reference):
+\`\`\`
+${surroundingCode(hunk)}
+\`\`\`
+
+`
+    : '';
+  return `You're a code reviewer. Analyze this change in any programming language and provide suggestions.
+
+FILE: ${hunk.filename}
+
+${surrounding}CHANGE (new-file line numbers on the left; "+" added, "-" removed, unmarked lines unchanged):
+\`\`\`
+${formatChange(hunk)}
+\`\`\`
+
+Review the added lines. Use the removed lines and surrounding code to tell a refactor from new behavior.
+Detect the language automatically. ONLY report CRITICAL issues that could break production:
+- 🔒 Security vulnerabilities (exposed secrets, SQL injection, XSS)
+- 💥 Will crash (unhandled errors, null refs, race conditions)
+- 🗑️ Data loss risks (missing validation, destructive ops)
+- 🐌 Major performance problems (N+1 queries, infinite loops, memory leaks)
+
+Ignore: style, minor optimizations, naming, comments, anything non-critical.
+Values shown as [REDACTED:...] were removed and reported before this review; don't report them again.
+
+Submit your review by calling the submit_review tool with:
+{
+  "language": "language name",
+  "summary": "Factual summary of what this PR does. Use short, declarative sentences. State what it adds, what it changes, and what functionality it provides. Do NOT mention risk level. Be neutral and technical. 2-4 sentences.",
+  "critical": [
+    {
+      "type": "security|crash|data-loss|performance",
+      "line": line_number_shown_before_the_issue,
+      "issue": "Brief what's wrong (1 sentence)",
+      "friendlySuggestion": "A helpful suggestion for how to improve or fix it. Be specific and actionable. 1-2 sentences max."
+    }
+  ]
+}
+
+Be encouraging and helpful in your summary. If no CRITICAL issues, return empty critical array.`;
+}
+
+/**
+ * The hunk's surrounding code as sent in prompts, cut to MAX_CONTEXT_CHARS of whole
+ * lines. Lines are dropped from both ends, so the code just above and just below
+ * the change is what remains.
+ */
+export function surroundingCode(hunk: DiffHunk): string {
+  if (hunk.context.length <= MAX_CONTEXT_CHARS) {
+    return hunk.context;
+  }
+
+  const lines = hunk.context.split('\n');
+  // Without a known start line, keep the middle of the context
+  const offset = hunk.contextStartLine ?? Math.ceil(hunk.startLine - lines.length / 2);
+  let first = Math.min(Math.max(hunk.startLine - offset, 0), lines.length - 1);
+  let last = Math.min(Math.max(hunk.endLine - offset, first), lines.length - 1);
+  let size = lines.slice(first, last + 1).join('\n').length;
+  if (size > MAX_CONTEXT_CHARS) {
+    return lines.slice(first, last + 1).join('\n').slice(0, MAX_CONTEXT_CHARS);
+  }
+
+  let grown = true;
+  while (grown) {
+    grown = false;
+    if (first > 0 && size + lines[first - 1].length + 1 <= MAX_CONTEXT_CHARS) {
+      size += lines[--first].length + 1;
+      grown = true;
+    }
+    if (last < lines.length - 1 && size + lines[last + 1].length + 1 <= MAX_CONTEXT_CHARS) {
+      size += lines[++last].length + 1;
+      grown = true;
+    }
+  }
+  return lines.slice(first, last + 1).join('\n');
+}
+
+/**
+ * Before/after view of a hunk for prompts: new-file line numbers on the left,
+ * then "+" for added, "-" for removed and " " for unchanged lines
+ */
+export function formatChange(hunk: DiffHunk): string {
+  const width = String(Math.max(hunk.endLine, hunk.startLine)).length;
+  return hunk.lines
+    .map(line => {
+      const number = line.newLine !== undefined ? String(line.newLine).padStart(width) : ' '.repeat(width);
+      return `${number} ${DIFF_MARKERS[line.kind]} ${line.text}`;
+    })
+    .join('\n');
+}
+
+/**
+ * Map a model-reported line onto an added line of the hunk.
+ * Exact matches pass through. Numbers relative to the snippet (1, 2, ...) are translated.
+ * Anything else is clamped to the nearest added line and keeps the reported value
+ * so formatters can mark the location as approximate.
+ */
+export function mapReportedLine(line: number, hunk: DiffHunk): { line: number; reportedLine?: number; fileLevel?: boolean } {
+  const { addedLines } = hunk;
+  // Removed lines have no new-file line, and a deleted file has no new side at all (startLine 0)
+  if (addedLines.length === 0) {
+    return { line: Math.max(1, hunk.startLine), reportedLine: line, fileLevel: true };
+  }
+  if (addedLines.includes(line)) {
+    return { line };
+  }
+
+  const outsideHunk = line < hunk.startLine || line > hunk.endLine;
+  if (outsideHunk && line >= 1 && line <= addedLines.length) {
+    return { line: addedLines[line - 1] };
+  }
+
+  const nearest = addedLines.reduce((best, candidate) =>
+    Math.abs(candidate - line) < Math.abs(best - line) ? candidate : best
+  );
+  return { line: nearest, reportedLine: line };
+}
+
+/**
+ * Combine the reviews of a hunk's chunks into one review
+ */
+export function mergeReviews(reviews: AIReview[]): AIReview {
+  if (reviews.length === 1) {
+    return reviews[0];
+  }
+  return {
+    language: reviews.find(review => review.language !== 'Unknown')?.language ?? 'Unknown',
+    summary: reviews.map(review => review.summary).join(' '),
+    critical: reviews.flatMap(review => review.critical)
+  };
+}
+
+/**
+ * Tool input arrives as JSON; providers without tool support may wrap it in prose or a code fence
+ */
+function parseResponse(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    const jsonMatch = text.match(/\{[\s\S]*\}/);
+    if (!jsonMatch) {
+      return undefined;
+    }
+    try {
+      return JSON.parse(jsonMatch[0]);
+    } catch {
+      return undefined;
+    }
+  }
+}
+
+/**
+ * Check a parsed response against AIReview, returning one message per problem
+ */
+export function validateReview(value: unknown): string[] {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return ['response is not a JSON object'];
+  }
+
+  const review = value as Record<string, unknown>;
+  const errors: string[] = [];
+  const isNonEmptyString = (field: unknown) => typeof field === 'string' && field.trim() !== '';
+
+  if (!isNonEmptyString(review.language)) errors.push('language must be a non-empty string');
+  if (!isNonEmptyString(review.summary)) errors.push('summary must be a non-empty string');
+  if (!Array.isArray(review.critical)) {
+    errors.push('critical must be an array');
+    return errors;
+  }
+
+  review.critical.forEach((raw, index) => {
+    const item = (typeof raw === 'object' && raw !== null ? raw : {}) as Record<string, unknown>;
+    const at = `critical[${index}]`;
+    if (!CRITICAL_TYPES.includes(item.type as AIReview['critical'][number]['type'])) {
+      errors.push(`${at}.type must be one of: ${CRITICAL_TYPES.join(', ')}`);
+    }
+    if (typeof item.line !== 'number' || !Number.isInteger(item.line) || item.line < 1) {
+      errors.push(`${at}.line must be a positive integer`);
+    }
+    if (!isNonEmptyString(item.issue)) errors.push(`${at}.issue must be a non-empty string`);
+    if (!isNonEmptyString(item.friendlySuggestion)) errors.push(`${at}.friendlySuggestion must be a non-empty string`);
+  });
+
+  return errors;
+}
+
+function buildRepairPrompt(prompt: string, previous: string, errors: string[]): string {
+  return `${prompt}
+
+Your previous answer was rejected:
+${errors.map(error => `- ${error}`).join('\n')}
+
+Previous answer:
+${previous.slice(0, 2000)}
+
+Call the submit_review tool again with every field corrected.`;
+}
@@ -0,0 +1,128 @@
+/**
+ * On-disk cache for AI results, keyed by hunk content, position and context, model and prompt version
+ */
+
+import { createHash } from 'crypto';
+import {
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  readdirSync,
+  rmSync,
+  statSync,
+  utimesSync,
+  writeFileSync
+} from 'fs';
+import { join } from 'path';
+import { DiffHunk } from './types.js';
+
+export interface CacheLimits {
+  maxAgeMs: number;
+  maxBytes: number;
+}
+
+/**
+ * Stable key for one AI call on one hunk. Results hold new-file line numbers, so the
+ * key covers every line's position and a hunk that moved in the file is a miss.
+ */
+export function cacheKey(
+  kind: string,
+  hunk: DiffHunk,
+  model: string,
+  promptVersion: number
+): string {
+  return createHash('sha256')
+    .update(JSON.stringify([kind, promptVersion, model, hunk.filename, hunk.startLine, hunk.lines, hunk.context]))
+    .digest('hex');
+}
+
+/**
+ * Return the cached value for `key`, or compute and store it.
+ * A null `dir` disables caching.
+ */
+export async function withCache<T>(
+  dir: string | null,
+  key: string,
+  compute: () => Promise<T>
+): Promise<{ value: T; cached: boolean }> {
+  if (dir) {
+    const hit = readCache<T>(dir, key);
+    if (hit !== undefined) {
+      return { value: hit, cached: true };
+    }
+  }
+
+  const value = await compute();
+  if (dir) {
+    writeCache(dir, key, value);
+  }
+  return { value, cached: false };
+}
+
+function entryPath(dir: string, key: string): string {
+  return join(dir, key.slice(0, 2), `${key}.json`);
+}
+
+function readCache<T>(dir: string, key: string): T | undefined {
+  const path = entryPath(dir, key);
+  if (!existsSync(path)) {
+    return undefined;
+  }
+
+  try {
+    const entry = JSON.parse(readFileSync(path, 'utf-8')) as { value: T };
+    // Bump mtime so size-based pruning evicts least recently used entries first
+    const now = new Date();
+    utimesSync(path, now, now);
+    return entry.value;
+  } catch {
+    // Corrupt entry (e.g. interrupted write) - treat as a miss
+    rmSync(path, { force: true });
+    return undefined;
+  }
+}
+
+function writeCache<T>(dir: string, key: string, value: T): void {
+  const path = entryPath(dir, key);
+  try {
+    mkdirSync(join(dir, key.slice(0, 2)), { recursive: true });
+    writeFileSync(path, JSON.stringify({ createdAt: new Date().toISOString(), value }));
+  } catch {
+    // A cache that can't be written should never fail the review, or add to its output
+  }
+}
+
+/**
+ * Delete entries older than maxAgeMs, then the least recently used until under maxBytes.
+ * Returns the number of entries removed.
+ */
+export function pruneCache(dir: string, limits: CacheLimits): number {
+  if (!existsSync(dir)) {
+    return 0;
+  }
+
+  const now = Date.now();
+  const entries = readdirSync(dir, { withFileTypes: true })
+    .filter(shard => shard.isDirectory())
+    .flatMap(shard => readdirSync(join(dir, shard.name))
+      .filter(name => name.endsWith('.json'))
+      .map(name => {
+        const path = join(dir, shard.name, name);
+        const stats = statSync(path);
+        return { path, size: stats.size, mtime: stats.mtimeMs };
+      }))
+    .sort((a, b) => a.mtime - b.mtime);
+
+  let removed = 0;
+  let totalBytes = entries.reduce((sum, entry) => sum + entry.size, 0);
+
+  for (const entry of entries) {
+    if (now - entry.mtime > limits.maxAgeMs || totalBytes > limits.maxBytes) {
+      rmSync(entry.path, { force: true });
+      totalBytes -= entry.size;
+      removed++;
+    }
+  }
+
+  return removed;
+}
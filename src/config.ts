@@ -0,0 +1,328 @@
+/**
+ * Project config file discovery, validation and merging, with CLI flags applied on top
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import { dirname, join, resolve } from 'path';
+import { Config, DEFAULT_CONFIG, ProviderName } from './types.js';
+import { PROVIDER_NAMES } from './api/provider.js';
+import { parseBudget, priceFor } from './usage.js';
+
+export const CONFIG_FILENAMES = ['.reviewpalrc.json', 'reviewpal.config.json'];
+
+// Options as parsed by commander; numbers arrive as strings and are checked here
+export interface CliOptions {
+  git?: string;
+  byCommit?: boolean;
+  config?: string;
+  include?: string[];
+  exclude?: string[];
+  format: string;
+  maxHunks: string;
+  concurrency?: string;
+  timeout?: string;
+  contextLines?: string;
+  cache: boolean;
+  cacheDir?: string;
+  provider?: string;
+  baseUrl?: string;
+  record?: string;
+  replay?: string;
+  model: string;
+  budget?: string;
+  dryRun?: boolean;
+  summary: boolean;
+  patterns: boolean;
+  complexity: boolean;
+  quiet: boolean;
+}
+
+// A schema leaf returns an error message for a bad value, or null when valid
+type Validator = (value: unknown) => string | null;
+interface Schema {
+  [key: string]: Validator | Schema | ArraySchema;
+}
+// An array whose items are objects checked against `items`
+interface ArraySchema {
+  items: Schema;
+}
+
+const isString: Validator = value =>
+  typeof value === 'string' && value.trim() !== '' ? null : 'must be a non-empty string';
+
+const isBoolean: Validator = value =>
+  typeof value === 'boolean' ? null : 'must be true or false';
+
+const isPositiveNumber: Validator = value =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0 ? null : 'must be a positive number';
+
+const isPositiveInteger: Validator = value =>
+  typeof value === 'number' && Number.isInteger(value) && value > 0 ? null : 'must be a positive integer';
+
+const isNonNegativeNumber: Validator = value =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0 ? null : 'must be a non-negative number';
+
+const isNonNegativeInteger: Validator = value =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 0 ? null : 'must be a non-negative integer';
+
+const oneOf = (allowed: string[]): Validator => value =>
+  typeof value === 'string' && allowed.includes(value) ? null : `must be one of: ${allowed.join(', ')}`;
+
+const isStringArray: Validator = value =>
+  Array.isArray(value) && value.every(item => typeof item === 'string' && item.trim() !== '')
+    ? null
+    : 'must be an array of non-empty strings';
+
+const isRegexArray: Validator = value => {
+  const notStrings = isStringArray(value);
+  if (notStrings) return notStrings;
+  for (const source of value as string[]) {
+    try {
+      new RegExp(source);
+    } catch {
+      return `contains an invalid regex: ${source}`;
+    }
+  }
+  return null;
+};
+
+const THRESHOLDS_SCHEMA: Schema = {
+  nestingDepth: isPositiveNumber,
+  cyclomaticComplexity: isPositiveNumber,
+  parameterCount: isPositiveNumber,
+  lineCount: isPositiveNumber,
+  dependencyCount: isPositiveNumber
+};
+
+const ANALYZERS_SCHEMA: Schema = {
+  aiReview: isBoolean,
+  secrets: isBoolean,
+  summary: isBoolean,
+  patterns: isBoolean,
+  complexity: isBoolean
+};
+
+const PRICE_SCHEMA: Schema = {
+  input: isNonNegativeNumber,
+  output: isNonNegativeNumber
+};
+
+const BUDGET_SCHEMA: Schema = {
+  tokens: isPositiveInteger,
+  usd: isPositiveNumber
+};
+
+const CONFIG_SCHEMA: Schema = {
+  provider: oneOf(PROVIDER_NAMES),
+  baseUrl: isString,
+  anthropicApiKey: isString,
+  openaiApiKey: isString,
+  fakeRules: isString,
+  model: isString,
+  pricePerMillionTokens: PRICE_SCHEMA,
+  budget: BUDGET_SCHEMA,
+  concurrency: isPositiveInteger,
+  requestTimeout: isPositiveNumber,
+  maxRetries: isNonNegativeInteger,
+  contextLines: isNonNegativeInteger,
+  maxChunkTokens: isPositiveInteger,
+  maxChunksPerHunk: isPositiveInteger,
+  cache: isBoolean,
+  cacheDir: isString,
+  cacheMaxAgeDays: isPositiveNumber,
+  cacheMaxSizeMb: isPositiveNumber,
+  complexityThresholds: THRESHOLDS_SCHEMA,
+  enabledAnalyzers: ANALYZERS_SCHEMA,
+  include: isStringArray,
+  exclude: isStringArray,
+  useDefaultExcludes: isBoolean,
+  secretsAllowlist: isRegexArray,
+  overrides: {
+    items: {
+      files: isStringArray,
+      testFiles: isBoolean,
+      complexityThresholds: THRESHOLDS_SCHEMA,
+      enabledAnalyzers: ANALYZERS_SCHEMA
+    }
+  }
+};
+
+/**
+ * Look for a config file in `startDir` and its parents, stopping at the git repo root
+ */
+export function findConfigFile(startDir: string = process.cwd()): string | null {
+  let dir = resolve(startDir);
+
+  while (true) {
+    for (const name of CONFIG_FILENAMES) {
+      const candidate = join(dir, name);
+      if (existsSync(candidate)) {
+        return candidate;
+      }
+    }
+
+    const parent = dirname(dir);
+    if (parent === dir || existsSync(join(dir, '.git'))) {
+      return null;
+    }
+    dir = parent;
+  }
+}
+
+/**
+ * Load the config from an explicit path, or the discovered file, merged over DEFAULT_CONFIG
+ */
+export function loadConfig(configPath?: string): { config: Config; path: string | null } {
+  const path = configPath ? resolve(configPath) : findConfigFile();
+  if (!path) {
+    return { config: DEFAULT_CONFIG, path: null };
+  }
+  if (!existsSync(path)) {
+    throw new Error(`Config file not found: ${path}`);
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(path, 'utf-8'));
+  } catch (e) {
+    throw new Error(`Invalid JSON in ${path}: ${e instanceof Error ? e.message : String(e)}`);
+  }
+
+  const errors = validateConfig(raw);
+  if (errors.length > 0) {
+    throw new Error(`Invalid config in ${path}:\n${errors.map(err => `  - ${err}`).join('\n')}`);
+  }
+
+  const fileConfig = raw as Partial<Config>;
+  // A path in the file means the same thing wherever reviewpal is run from
+  if (fileConfig.fakeRules) {
+    fileConfig.fakeRules = resolve(dirname(path), fileConfig.fakeRules);
+  }
+
+  return { config: mergeConfig(DEFAULT_CONFIG, fileConfig), path };
+}
+
+/**
+ * Load the project config file and apply CLI flags on top. Flags with a default only win
+ * when `fromCli` says they were given on the command line.
+ */
+export function resolveConfig(options: CliOptions, fromCli: (key: string) => boolean): Config {
+  const { config: fileConfig } = loadConfig(options.config);
+  const config = mergeConfig(fileConfig, {});
+
+  if (options.provider) {
+    if (!PROVIDER_NAMES.includes(options.provider as ProviderName)) {
+      throw new Error(`--provider must be one of: ${PROVIDER_NAMES.join(', ')} (got "${options.provider}")`);
+    }
+    config.provider = options.provider as ProviderName;
+  }
+  if (options.baseUrl) config.baseUrl = options.baseUrl;
+  if (fromCli('model')) config.model = options.model;
+  // The default model only exists on Anthropic
+  if (config.provider === 'openai' && config.model === DEFAULT_CONFIG.model) {
+    throw new Error(`Set a model for the ${config.provider} provider with --model or "model" in the config file`);
+  }
+  if (options.concurrency) {
+    const concurrency = parseInt(options.concurrency, 10);
+    if (!(concurrency > 0)) {
+      throw new Error(`--concurrency must be a positive integer (got "${options.concurrency}")`);
+    }
+    config.concurrency = concurrency;
+  }
+  if (options.timeout) {
+    const timeout = Number(options.timeout);
+    if (!(timeout > 0)) {
+      throw new Error(`--timeout must be a positive number of seconds (got "${options.timeout}")`);
+    }
+    config.requestTimeout = timeout;
+  }
+  if (options.contextLines) {
+    const contextLines = Number(options.contextLines);
+    if (!(Number.isInteger(contextLines) && contextLines >= 0)) {
+      throw new Error(`--context-lines must be a non-negative integer (got "${options.contextLines}")`);
+    }
+    config.contextLines = contextLines;
+  }
+  const maxHunks = Number(options.maxHunks);
+  if (!(options.maxHunks.trim() !== '' && Number.isInteger(maxHunks) && maxHunks >= 0)) {
+    throw new Error(`--max-hunks must be a non-negative integer (got "${options.maxHunks}")`);
+  }
+  if (options.budget) config.budget = parseBudget(options.budget);
+  if (config.pricePerMillionTokens && (config.pricePerMillionTokens.input === undefined || config.pricePerMillionTokens.output === undefined)) {
+    throw new Error('"pricePerMillionTokens" needs both "input" and "output"');
+  }
+  if (config.budget?.usd !== undefined && !priceFor(config.model, config.pricePerMillionTokens)) {
+    throw new Error(`No price known for ${config.model}; set "pricePerMillionTokens" in the config file or give --budget in tokens`);
+  }
+  if (fromCli('cache')) config.cache = options.cache;
+  if (options.record && options.replay) {
+    throw new Error('--record and --replay cannot be used together');
+  }
+  // Cache hits never reach the provider, so they would be missing from the recording
+  if (options.record) config.cache = false;
+  if (options.cacheDir) config.cacheDir = options.cacheDir;
+  if (options.include) config.include = [...config.include, ...options.include];
+  if (options.exclude) config.exclude = [...config.exclude, ...options.exclude];
+  config.enabledAnalyzers = {
+    ...config.enabledAnalyzers,
+    summary: fromCli('summary') ? options.summary : config.enabledAnalyzers.summary,
+    patterns: fromCli('patterns') ? options.patterns : config.enabledAnalyzers.patterns,
+    complexity: fromCli('complexity') ? options.complexity : config.enabledAnalyzers.complexity
+  };
+
+  return config;
+}
+
+/**
+ * Check a parsed config file against the schema; returns one message per bad key
+ */
+export function validateConfig(raw: unknown, schema: Schema = CONFIG_SCHEMA, prefix = ''): string[] {
+  if (!isPlainObject(raw)) {
+    return [`${prefix || 'config'} must be an object`];
+  }
+
+  const errors: string[] = [];
+  for (const [key, value] of Object.entries(raw)) {
+    const path = prefix ? `${prefix}.${key}` : key;
+    const rule = schema[key];
+
+    if (!rule) {
+      errors.push(`"${path}" is not a known option (expected one of: ${Object.keys(schema).join(', ')})`);
+    } else if (typeof rule === 'function') {
+      const message = rule(value);
+      if (message) errors.push(`"${path}" ${message} (got ${JSON.stringify(value)})`);
+    } else if (isArraySchema(rule)) {
+      if (!Array.isArray(value)) {
+        errors.push(`"${path}" must be an array (got ${JSON.stringify(value)})`);
+      } else {
+        value.forEach((item, index) => errors.push(...validateConfig(item, rule.items, `${path}[${index}]`)));
+      }
+    } else {
+      errors.push(...validateConfig(value, rule, path));
+    }
+  }
+  return errors;
+}
+
+/**
+ * Deep-merge plain objects; arrays and scalars in `override` replace those in `base`
+ */
+export function mergeConfig<T>(base: T, override: Partial<T>): T {
+  const merged: Record<string, unknown> = { ...(base as Record<string, unknown>) };
+
+  for (const [key, value] of Object.entries(override as Record<string, unknown>)) {
+    if (value === undefined) continue;
+    merged[key] = isPlainObject(value) && isPlainObject(merged[key])
+      ? mergeConfig(merged[key], value)
+      : value;
+  }
+  return merged as T;
+}
+
+function isArraySchema(rule: Schema | ArraySchema): rule is ArraySchema {
+  return isPlainObject(rule.items) && Object.keys(rule).length === 1;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,98 @@
+/**
+ * Fill DiffHunk.context with the code around each hunk, read from git or the working tree
+ */
+
+import { execFileSync } from 'child_process';
+import { existsSync, readFileSync } from 'fs';
+import { resolve } from 'path';
+import { extractContext } from './parsers/diff.js';
+import { DiffFile } from './types.js';
+
+// Where to look for the new side of a file: a git ref, the index (''), or the working tree (null)
+export type SourceLocation = string | null;
+
+/**
+ * The ref holding the new side of `git diff <range>`, or null for the working tree.
+ * `A..B` and `A...B` end at B (HEAD when omitted); `A B` ends at B; `--cached` ends at the index.
+ */
+export function newSideLocation(gitRange?: string): SourceLocation {
+  if (!gitRange) {
+    return null;
+  }
+
+  const args = gitRange.trim().split(/\s+/);
+  if (args.includes('--cached') || args.includes('--staged')) {
+    return '';
+  }
+
+  const refs = args.filter(arg => !arg.startsWith('-'));
+  const range = refs.find(ref => ref.includes('..'));
+  if (range) {
+    const end = range.split(/\.\.\.?/)[1];
+    return end || 'HEAD';
+  }
+  return refs.length >= 2 ? refs[refs.length - 1] : null;
+}
+
+/**
+ * Attach up to `contextLines` lines above and below each hunk. Each location is tried
+ * in order and only used if its copy of the file contains the diff's added lines,
+ * so a stale working tree never feeds the model the wrong code.
+ * Returns the number of files that got context.
+ */
+export function attachContext(
+  files: DiffFile[],
+  locations: SourceLocation[],
+  contextLines: number
+): number {
+  if (contextLines <= 0) {
+    return 0;
+  }
+
+  let attached = 0;
+  for (const file of files) {
+    // A deleted file has no new side to read around
+    if (file.changeKind === 'deleted') {
+      continue;
+    }
+    // A commit from a patch series is read at its own revision first
+    const fileLocations = file.commit?.hash ? [file.commit.hash, ...locations] : locations;
+    const content = fileLocations
+      .map(location => readSource(file.filename, location))
+      .find((candidate): candidate is string => candidate !== null && matchesNewSide(candidate, file));
+    if (content === undefined) {
+      continue;
+    }
+
+    for (const hunk of file.hunks) {
+      hunk.context = extractContext(content, hunk.startLine, hunk.endLine, contextLines);
+      hunk.contextStartLine = Math.max(1, hunk.startLine - contextLines);
+    }
+    attached++;
+  }
+
+  return attached;
+}
+
+function readSource(path: string, location: SourceLocation): string | null {
+  try {
+    if (location === null) {
+      const fullPath = resolve(path);
+      return existsSync(fullPath) ? readFileSync(fullPath, 'utf-8') : null;
+    }
+    return execFileSync('git', ['show', `${location}:${path}`], {
+      encoding: 'utf-8',
+      maxBuffer: 20 * 1024 * 1024,
+      stdio: ['ignore', 'pipe', 'ignore']
+    });
+  } catch {
+    return null;
+  }
+}
+
+function matchesNewSide(content: string, file: DiffFile): boolean {
+  const lines = content.split('\n').map(line => line.replace(/\r$/, ''));
+  return file.hunks.every(hunk =>
+    hunk.additions.every((text, i) => lines[hunk.addedLines[i] - 1] === text.replace(/\r$/, ''))
+  );
+}
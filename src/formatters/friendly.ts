@@ -2,9 +2,9 @@
  * Human-friendly output format (brief, critical-only)
  */
 
-import { ReviewResult } from '../types.js';
+import { CommitInfo, ComplexityAnalysis, HunkStatus, PatternAnalysis, ReviewResult, SummaryAnalysis } from '../types.js';
 
-const EMOJI_MAP = {
+export const EMOJI_MAP: Record<string, string> = {
   security: '🔒',
   crash: '💥',
   'data-loss': '🗑️',
@@ -48,26 +48,211 @@ export function formatFriendlyReviewResult(result: ReviewResult): string {
           const emoji = EMOJI_MAP[item.type] || '⚠️';
           
           // Generate GitHub diff link to specific line
-          let lineLink = `line ${item.line}`;
-          if (repo && prNumber && hunk.hunk.fileDiffHash) {
+          let lineLink = item.fileLevel ? 'removed code' : `line ${item.line}`;
+          if (repo && prNumber && hunk.hunk.fileDiffHash && !item.fileLevel) {
             // GitHub format: /pull/{pr}/files#diff-{hash}R{line}
             const diffUrl = `https://github.com/${repo}/pull/${prNumber}/files#diff-${hunk.hunk.fileDiffHash}R${item.line}`;
             lineLink = `[${file.filename}:${item.line}](${diffUrl})`;
           }
           
-          parts.push(`- ${emoji} **${item.type.toUpperCase()}**: ${item.issue} → ${lineLink}\n`);
+          // The model pointed outside the hunk; the link goes to the nearest added line
+          const approximate = item.reportedLine !== undefined && !item.fileLevel ? ' _(approximate location)_' : '';
+          const origin = file.commit ? ` in ${formatCommitLabel(file.commit)}` : '';
+          parts.push(`- ${emoji} **${item.type.toUpperCase()}**: ${item.issue} → ${lineLink}${approximate}${origin}\n`);
         });
       }
     }
   }
   
-  if (parts.length === 0) {
-    return '✅ Looks good - no critical issues found!';
+  const secrets = formatSecrets(result);
+  const walkthrough = formatWalkthrough(result) + formatTrivial(result) + formatFailures(result) + formatSkippedFiles(result);
+  // A clean result only counts when every hunk was actually reviewed
+  const incomplete = formatIncomplete(result);
+  
+  if (parts.length === 0 && !secrets) {
+    return (incomplete || '✅ Looks good - no critical issues found!') + walkthrough;
+  }
+  
+  if (!hasCriticalIssues && !secrets) {
+    return parts.join('\n') + '\n\n' + (incomplete || '✅ No critical issues found!') + walkthrough;
+  }
+  
+  return secrets + parts.join('\n') + walkthrough;
+}
+
+/**
+ * Credentials found by the local scan - listed first, they need action before merge
+ */
+function formatSecrets(result: ReviewResult): string {
+  const found = result.files.flatMap(file =>
+    file.hunks.flatMap(hunk => hunk.secrets || []).map(secret =>
+      `- 🔑 **SECRET**: ${secret.issue} → \`${file.filename}:${secret.line}\`` +
+      `${file.commit ? ` in ${formatCommitLabel(file.commit)}` : ''}\n  ${secret.suggestion}`
+    )
+  );
+  
+  if (found.length === 0) {
+    return '';
+  }
+  
+  return `**🔑 Secrets found (detected locally, not sent to the AI):**\n\n${found.join('\n')}\n\n`;
+}
+
+/**
+ * Per-hunk WHAT / WHY / WATCH orientation and decoded patterns
+ */
+function formatWalkthrough(result: ReviewResult): string {
+  const blocks: string[] = [];
+  
+  for (const file of result.files) {
+    for (const hunk of file.hunks) {
+      const sections: string[] = [];
+      if (hunk.summary) sections.push(formatSummary(hunk.summary));
+      if (hunk.patterns && hunk.patterns.patternsFound.length > 0) sections.push(formatPatterns(hunk.patterns));
+      if (hunk.complexity && hunk.complexity.flags.length > 0) sections.push(formatComplexity(hunk.complexity));
+      if (sections.length === 0) continue;
+      
+      blocks.push(`**\`${file.filename}\`** (lines ${hunk.hunk.startLine}-${hunk.hunk.endLine})\n\n${sections.join('\n\n')}`);
+    }
   }
   
-  if (!hasCriticalIssues) {
-    return parts.join('\n') + '\n\n✅ No critical issues found!';
+  if (blocks.length === 0) {
+    return '';
+  }
+  
+  return `\n\n**🧭 Walkthrough:**\n\n${blocks.join('\n\n')}`;
+}
+
+/**
+ * List moved and reformatted hunks, so reviewers know why they got no AI review
+ */
+function formatTrivial(result: ReviewResult): string {
+  const items = result.files.flatMap(file => file.hunks.flatMap(({ hunk }) => {
+    if (!hunk.trivial) return [];
+    const from = hunk.trivial.movedFrom;
+    const what = from ? `moved from \`${from.filename}:${from.line}\`` : 'formatting only';
+    return [`- \`${file.filename}\` lines ${hunk.startLine}-${hunk.endLine}: ${what}`];
+  }));
+  
+  if (items.length === 0) {
+    return '';
   }
   
-  return parts.join('\n');
+  return `\n\n**♻️ Moved or reformatted (not re-reviewed):**\n\n${items.join('\n')}`;
+}
+
+const FAILURE_REASONS: Record<HunkStatus, string> = {
+  'analyzed': '',
+  'not-analyzed': 'AI analysis failed',
+  'analysis-failed': 'invalid AI response',
+  'over-budget': 'review budget used up',
+  'over-max-hunks': 'lower risk, over --max-hunks'
+};
+
+/**
+ * Headline for a run where some hunks got no AI review or only part of one, or '' when all got a full review
+ */
+function formatIncomplete(result: ReviewResult): string {
+  const hunks = result.files.flatMap(file => file.hunks);
+  const notAnalyzed = hunks.filter(hunk => hunk.status !== 'analyzed' || hunk.skippedRanges).length;
+  if (notAnalyzed === 0) {
+    return '';
+  }
+  
+  const rest = notAnalyzed < hunks.length ? 'no critical issues in the rest, but ' : '';
+  return `⚠️ **${notAnalyzed} of ${hunks.length} hunks were not fully analyzed** - ${rest}review the hunks listed below yourself.`;
+}
+
+/**
+ * Note hunks without a full AI review so nobody assumes they were checked
+ */
+function formatFailures(result: ReviewResult): string {
+  const failed = result.files.flatMap(file => [
+    ...file.hunks
+      .filter(hunk => hunk.status !== 'analyzed')
+      .map(hunk => `- \`${file.filename}\` lines ${hunk.hunk.startLine}-${hunk.hunk.endLine} (${FAILURE_REASONS[hunk.status]})`),
+    ...file.hunks
+      .flatMap(hunk => hunk.skippedRanges || [])
+      .map(range => `- \`${file.filename}\` lines ${range.startLine}-${range.endLine} (hunk too large)`)
+  ]);
+  
+  if (failed.length === 0) {
+    return '';
+  }
+  
+  return `\n\n**⚠️ Not analyzed:**\n\n${failed.join('\n')}`;
+}
+
+/**
+ * Files left out before review (excluded, binary, deleted or mode-only), with the reason
+ */
+function formatSkippedFiles(result: ReviewResult): string {
+  if (result.skippedFiles.length === 0) {
+    return '';
+  }
+  
+  const items = result.skippedFiles.map(skipped => `- \`${skipped.filename}\` (${skipped.reason})`);
+  return `\n\n**⏭️ Skipped files:**\n\n${items.join('\n')}`;
+}
+
+/**
+ * Short commit reference for reports: "abc1234 Fix login redirect"
+ */
+export function formatCommitLabel(commit: CommitInfo): string {
+  return commit.hash ? `${commit.hash.slice(0, 7)} ${commit.subject}` : commit.subject;
+}
+
+/**
+ * Render a hunk summary as a markdown blockquote
+ */
+export function formatSummary(summary: SummaryAnalysis): string {
+  const lines = [
+    `> 🔍 **WHAT:** ${summary.what}`,
+    '> ',
+    `> 💡 **WHY:** ${summary.why}`
+  ];
+  
+  if (summary.watch.length > 0) {
+    lines.push('> ', '> ⚠️ **WATCH:**');
+    summary.watch.forEach(item => lines.push(`> - ${item}`));
+  }
+  
+  return lines.join('\n');
+}
+
+/**
+ * Render detected AI patterns as a short list
+ */
+export function formatPatterns(patterns: PatternAnalysis): string {
+  const lines = patterns.patternsFound.map(match => {
+    const alternative = match.simplerAlternative ? ` *Simpler:* ${match.simplerAlternative}` : '';
+    return `- 🔮 **${match.type}** (${formatLineList(match.lines)}): ${match.issue}.${alternative}`;
+  });
+  
+  if (patterns.keyQuestion) {
+    lines.push(`\n❓ ${patterns.keyQuestion}`);
+  }
+  
+  return lines.join('\n');
+}
+
+/**
+ * Render complexity threshold breaches
+ */
+export function formatComplexity(complexity: ComplexityAnalysis): string {
+  const lines = [`📈 **Complexity ${complexity.score}/10**`];
+  
+  complexity.flags.forEach(flag => {
+    const icon = flag.severity === 'critical' ? '🔴' : '🟡';
+    lines.push(`- ${icon} ${flag.metric}: ${flag.value} (threshold ${flag.threshold})`);
+  });
+  complexity.suggestions.forEach(suggestion => lines.push(`- 💡 ${suggestion}`));
+  
+  return lines.join('\n');
+}
+
+function formatLineList(lines: number[]): string {
+  const shown = lines.slice(0, 5).join(', ');
+  const more = lines.length > 5 ? ` +${lines.length - 5} more` : '';
+  return `line${lines.length === 1 ? '' : 's'} ${shown}${more}`;
 }
@@ -0,0 +1,169 @@
+/**
+ * GitHub Actions workflow commands - findings show up as annotations without a bot token
+ */
+
+import { HunkStatus, ReviewResult } from '../types.js';
+import { formatUsage } from '../usage.js';
+import { formatCommitLabel } from './friendly.js';
+
+type AnnotationLevel = 'error' | 'warning' | 'notice';
+
+interface Annotation {
+  level: AnnotationLevel;
+  file: string;
+  line?: number;  // unset for annotations on a whole file
+  endLine?: number;
+  title: string;
+  message: string;
+}
+
+const FAILURE_TITLES: Record<HunkStatus, string> = {
+  'analyzed': 'ReviewPal',
+  'not-analyzed': 'ReviewPal: not analyzed',
+  'analysis-failed': 'ReviewPal: analysis failed',
+  'over-budget': 'ReviewPal: over budget',
+  'over-max-hunks': 'ReviewPal: not reviewed'
+};
+
+const FAILURE_MESSAGES: Partial<Record<HunkStatus, string>> = {
+  'over-budget': 'Not sent to the AI: the review budget was used up',
+  'over-max-hunks': 'Left out of the AI review by --max-hunks (lower risk); review these lines by hand'
+};
+
+export function formatGithubReviewResult(result: ReviewResult): string {
+  const annotations: Annotation[] = [];
+
+  for (const file of result.files) {
+    const first = annotations.length;
+    for (const { hunk, status, errors, skippedRanges, secrets, aiReview, patterns, complexity } of file.hunks) {
+      if (status !== 'analyzed') {
+        annotations.push({
+          level: 'warning',
+          file: file.filename,
+          line: hunk.startLine,
+          endLine: hunk.endLine,
+          title: FAILURE_TITLES[status],
+          message: FAILURE_MESSAGES[status] ?? `AI analysis failed for this hunk${errors ? `: ${errors.join('; ')}` : ''}`
+        });
+      }
+
+      if (hunk.trivial) {
+        const from = hunk.trivial.movedFrom;
+        annotations.push({
+          level: 'notice',
+          file: file.filename,
+          line: hunk.startLine,
+          endLine: hunk.endLine,
+          title: from ? 'ReviewPal: moved code' : 'ReviewPal: formatting only',
+          message: from ? `Moved from ${from.filename}:${from.line}; not re-reviewed` : 'Only whitespace changed; not re-reviewed'
+        });
+      }
+
+      for (const range of skippedRanges || []) {
+        annotations.push({
+          level: 'warning',
+          file: file.filename,
+          line: range.startLine,
+          endLine: range.endLine,
+          title: 'ReviewPal: not reviewed',
+          message: 'These lines were not sent to the AI because the hunk is too large'
+        });
+      }
+
+      for (const secret of secrets || []) {
+        annotations.push({
+          level: 'error',
+          file: file.filename,
+          line: secret.line,
+          title: `ReviewPal secret: ${secret.kind}`,
+          message: `${secret.issue}\n${secret.suggestion}`
+        });
+      }
+
+      for (const item of aiReview?.critical || []) {
+        annotations.push({
+          level: 'error',
+          file: file.filename,
+          line: item.fileLevel ? undefined : item.line,
+          title: `ReviewPal: ${item.type}`,
+          message: item.reportedLine !== undefined && !item.fileLevel
+            ? `${item.issue}\n${item.friendlySuggestion}\n(Approximate location: the model reported line ${item.reportedLine})`
+            : `${item.issue}\n${item.friendlySuggestion}`
+        });
+      }
+
+      for (const match of patterns?.patternsFound || []) {
+        annotations.push({
+          level: 'warning',
+          file: file.filename,
+          line: Math.min(...match.lines),
+          endLine: Math.max(...match.lines),
+          title: `ReviewPal pattern: ${match.type}`,
+          message: match.simplerAlternative ? `${match.issue}\n${match.simplerAlternative}` : match.issue
+        });
+      }
+
+      const critical = complexity?.flags.filter(flag => flag.severity === 'critical') || [];
+      if (complexity && critical.length > 0) {
+        annotations.push({
+          level: 'warning',
+          file: file.filename,
+          line: hunk.startLine,
+          endLine: hunk.endLine,
+          title: `ReviewPal complexity: ${complexity.score}/10`,
+          message: critical.map(flag => `${flag.metric} ${flag.value} (threshold ${flag.threshold})`).join(', ')
+        });
+      }
+    }
+
+    // Name the commit that introduced each finding in a patch series
+    if (file.commit) {
+      const origin = `Commit: ${formatCommitLabel(file.commit)}`;
+      annotations.slice(first).forEach(annotation => { annotation.message += `\n${origin}`; });
+    }
+  }
+
+  for (const skipped of result.skippedFiles) {
+    annotations.push({
+      level: 'notice',
+      file: skipped.filename,
+      title: 'ReviewPal: file skipped',
+      message: `Not reviewed: ${skipped.reason}`
+    });
+  }
+
+  const lines = annotations.map(formatAnnotation);
+  lines.push(
+    `::notice title=ReviewPal::Reviewed ${result.totalHunks} hunks in ${result.files.length} files. ` +
+    `${annotations.filter(annotation => annotation.level !== 'notice').length} findings. AI likelihood: ${result.aiCodeLikelihood}. Usage: ${formatUsage(result.usage)}`
+  );
+
+  return lines.join('\n');
+}
+
+function formatAnnotation(annotation: Annotation): string {
+  const properties = [
+    `file=${escapeProperty(annotation.file)}`,
+    annotation.line !== undefined ? `line=${annotation.line}` : '',
+    annotation.endLine && annotation.endLine !== annotation.line ? `endLine=${annotation.endLine}` : '',
+    `title=${escapeProperty(annotation.title)}`
+  ].filter(Boolean);
+
+  return `::${annotation.level} ${properties.join(',')}::${escapeData(annotation.message)}`;
+}
+
+/**
+ * Escaping rules from the GitHub Actions toolkit (@actions/core)
+ */
+function escapeData(value: string): string {
+  return value
+    .replace(/%/g, '%25')
+    .replace(/\r/g, '%0D')
+    .replace(/\n/g, '%0A');
+}
+
+function escapeProperty(value: string): string {
+  return escapeData(value)
+    .replace(/:/g, '%3A')
+    .replace(/,/g, '%2C');
+}
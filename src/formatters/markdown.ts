@@ -0,0 +1,168 @@
+/**
+ * Full markdown report - every file, every hunk, every analyzer
+ */
+
+import { CommitInfo, FileAnalysis, HunkAnalysis, ReviewResult } from '../types.js';
+import { formatUsage } from '../usage.js';
+import { EMOJI_MAP, formatCommitLabel } from './friendly.js';
+
+export function formatMarkdownReviewResult(result: ReviewResult): string {
+  const parts: string[] = ['## 🔍 ReviewPal\n'];
+
+  parts.push(
+    `**Files:** ${result.files.length} · **Hunks:** ${result.totalHunks} · ` +
+    `**AI likelihood:** ${result.aiCodeLikelihood} · ` +
+    `**Time:** ${(result.totalProcessingTime / 1000).toFixed(1)}s · ` +
+    `**Usage:** ${formatUsage(result.usage)}\n`
+  );
+
+  if (result.aiLikelihood.signals.length > 0) {
+    parts.push(`<details>\n<summary>AI likelihood signals</summary>\n\n${result.aiLikelihood.signals.map(s => `- ${s}`).join('\n')}\n\n</details>\n`);
+  }
+
+  // Files of a patch series arrive in commit order; each commit gets its own heading
+  let commit: CommitInfo | undefined;
+  for (const file of result.files) {
+    if (file.hunks.length === 0) continue;
+    if (file.commit && file.commit !== commit) {
+      commit = file.commit;
+      parts.push(formatCommit(commit));
+    }
+    parts.push(formatFile(file));
+  }
+
+  const overMaxHunks = result.files.flatMap(file => file.hunks).filter(hunk => hunk.status === 'over-max-hunks').length;
+  if (overMaxHunks > 0) {
+    parts.push(`⚠️ **${overMaxHunks} lower-risk hunks got no AI review** (over \`--max-hunks\`); only the local checks ran on them.\n`);
+  }
+
+  if (result.skippedFiles.length > 0) {
+    const items = result.skippedFiles.map(skipped => `- \`${skipped.filename}\` (${skipped.reason})`);
+    parts.push(`<details>\n<summary>Skipped ${result.skippedFiles.length} files</summary>\n\n${items.join('\n')}\n\n</details>\n`);
+  }
+
+  return parts.join('\n');
+}
+
+function formatCommit(commit: CommitInfo): string {
+  const parts = [`## 📝 ${formatCommitLabel(commit)}\n`, `*${[commit.author, commit.date].filter(Boolean).join(' · ')}*\n`];
+  if (commit.message) {
+    parts.push(`<details>\n<summary>Commit message</summary>\n\n${commit.message}\n\n</details>\n`);
+  }
+  return parts.join('\n');
+}
+
+function formatFile(file: FileAnalysis): string {
+  const parts: string[] = [`### 📄 \`${file.filename}\`\n`];
+
+  const meta = [`Complexity: ${file.overallComplexity}/10`];
+  if (file.oldFilename) meta.unshift(`${file.changeKind === 'copied' ? 'Copied' : 'Renamed'} from \`${file.oldFilename}\``);
+  else if (file.changeKind === 'added') meta.unshift('New file');
+  else if (file.changeKind === 'deleted') meta.unshift('Deleted');
+  if (file.aiLikelihood) meta.push(`AI likelihood: ${file.aiLikelihood.level}`);
+  parts.push(`*${meta.join(' · ')}*\n`);
+
+  for (const hunk of file.hunks) {
+    parts.push(formatHunk(hunk));
+  }
+
+  return parts.join('\n');
+}
+
+function formatHunk(analysis: HunkAnalysis): string {
+  const { hunk, aiReview, summary, patterns, complexity } = analysis;
+  const parts: string[] = [];
+
+  if (analysis.status === 'not-analyzed') {
+    parts.push('⚠️ **Not analyzed** - the AI analysis failed for this hunk.\n');
+  } else if (analysis.status === 'analysis-failed') {
+    parts.push('⚠️ **Analysis failed** - the AI returned an invalid review for this hunk.\n');
+  } else if (analysis.status === 'over-budget') {
+    parts.push('⚠️ **Not analyzed** - the review budget was used up before this hunk.\n');
+  } else if (analysis.status === 'over-max-hunks') {
+    const risk = analysis.risk
+      ? ` (risk ${analysis.risk.score}${analysis.risk.reasons.length > 0 ? `: ${analysis.risk.reasons.join(', ')}` : ''})`
+      : '';
+    parts.push(`⚠️ **Not analyzed** - lower risk${risk}, over \`--max-hunks\`; only the local checks ran.\n`);
+  }
+  if (analysis.errors) {
+    parts.push(analysis.errors.map(error => `> ${error}`).join('\n') + '\n');
+  }
+  if (hunk.trivial) {
+    parts.push(hunk.trivial.movedFrom
+      ? `♻️ **Moved** from \`${hunk.trivial.movedFrom.filename}:${hunk.trivial.movedFrom.line}\` - not re-reviewed.\n`
+      : '♻️ **Formatting only** - not re-reviewed.\n');
+  }
+  if (analysis.skippedRanges) {
+    const ranges = analysis.skippedRanges.map(range => `${range.startLine}-${range.endLine}`).join(', ');
+    parts.push(`⚠️ **Partially reviewed** - lines ${ranges} were not sent to the AI (hunk too large).\n`);
+  }
+
+  if (aiReview) {
+    if (aiReview.language && aiReview.language !== 'Unknown') {
+      parts.push(`**Language:** ${aiReview.language}\n`);
+    }
+    parts.push(`**Summary:** ${aiReview.summary}\n`);
+  }
+
+  if (summary) {
+    parts.push('#### 🧭 What changed\n');
+    parts.push(`- 🔍 **WHAT:** ${summary.what}`);
+    parts.push(`- 💡 **WHY:** ${summary.why}`);
+    summary.watch.forEach(item => parts.push(`- ⚠️ **WATCH:** ${item}`));
+    parts.push('');
+  }
+
+  if (analysis.secrets) {
+    parts.push('#### 🔑 Secrets (detected locally)\n');
+    for (const secret of analysis.secrets) {
+      parts.push(`🔒 **SECRET** (line ${secret.line}): ${secret.issue}`);
+      parts.push(`💡 *Fix:* ${secret.suggestion}\n`);
+    }
+  }
+
+  if (aiReview && aiReview.critical.length > 0) {
+    parts.push('#### 🚨 Critical issues\n');
+    for (const item of aiReview.critical) {
+      const line = item.fileLevel ? 'removed code' : item.reportedLine !== undefined ? `~line ${item.line}` : `line ${item.line}`;
+      parts.push(`${EMOJI_MAP[item.type] || '⚠️'} **${item.type.toUpperCase()}** (${line}): ${item.issue}`);
+      parts.push(`💡 *Fix:* ${item.friendlySuggestion}\n`);
+    }
+  }
+
+  if (patterns && patterns.patternsFound.length > 0) {
+    parts.push('#### 🔮 AI patterns\n');
+    for (const match of patterns.patternsFound) {
+      parts.push(`**${match.type}** (lines ${match.lines.join(', ')}): ${match.issue}`);
+      if (match.simplerAlternative) {
+        parts.push(`💡 *Simpler:* ${match.simplerAlternative}`);
+      }
+      parts.push('');
+    }
+    if (patterns.keyQuestion) {
+      parts.push(`❓ *${patterns.keyQuestion}*\n`);
+    }
+  }
+
+  if (complexity) {
+    parts.push(`#### 📈 Complexity: ${complexity.score}/10\n`);
+    parts.push('| Metric | Value | Status |');
+    parts.push('|--------|-------|--------|');
+    for (const [metric, value] of Object.entries(complexity.metrics)) {
+      const flag = complexity.flags.find(f => f.metric === metric);
+      const status = flag
+        ? `${flag.severity === 'critical' ? '🔴' : '🟡'} over ${flag.threshold}`
+        : '🟢';
+      parts.push(`| ${metric} | ${value} | ${status} |`);
+    }
+    parts.push('');
+    complexity.suggestions.forEach(suggestion => parts.push(`- 💡 ${suggestion}`));
+    if (complexity.suggestions.length > 0) parts.push('');
+  }
+
+  if (parts.length === 0) {
+    parts.push('*No analysis available.*\n');
+  }
+
+  return `<details>\n<summary>Lines ${hunk.startLine}-${hunk.endLine}</summary>\n\n${parts.join('\n')}\n</details>\n`;
+}
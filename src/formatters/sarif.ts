@@ -0,0 +1,195 @@
+/**
+ * SARIF 2.1.0 output for GitHub code scanning and other SARIF viewers
+ */
+
+import { AIReview, PatternType, ReviewResult, SecretKind } from '../types.js';
+
+type CriticalType = AIReview['critical'][number]['type'];
+type SarifLevel = 'error' | 'warning' | 'note';
+
+interface SarifRule {
+  id: string;
+  name: string;
+  shortDescription: { text: string };
+  fullDescription: { text: string };
+  defaultConfiguration: { level: SarifLevel };
+  properties: Record<string, unknown>;
+}
+
+interface SarifResult {
+  ruleId: string;
+  ruleIndex: number;
+  level: SarifLevel;
+  message: { text: string; markdown?: string };
+  locations: Array<{
+    physicalLocation: {
+      artifactLocation: { uri: string };
+      region?: { startLine: number; endLine?: number };  // unset for results on a whole file
+    };
+  }>;
+  properties?: Record<string, unknown>;
+}
+
+const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json';
+
+const CRITICAL_RULES: Record<CriticalType, { name: string; description: string; securitySeverity: string }> = {
+  security: { name: 'SecurityVulnerability', description: 'Security vulnerability such as exposed secrets, injection or XSS', securitySeverity: '8.0' },
+  crash: { name: 'RuntimeCrash', description: 'Code that will crash: unhandled errors, null references, race conditions', securitySeverity: '5.0' },
+  'data-loss': { name: 'DataLoss', description: 'Data loss risk: missing validation or destructive operations', securitySeverity: '6.0' },
+  performance: { name: 'PerformanceProblem', description: 'Major performance problem: N+1 queries, infinite loops, memory leaks', securitySeverity: '3.0' }
+};
+
+const PATTERN_RULES: Record<PatternType, { name: string; description: string }> = {
+  'over-defensive': { name: 'OverDefensive', description: 'Nested try blocks or redundant null/undefined guards' },
+  'verbose-comments': { name: 'VerboseComments', description: 'Comments that restate the code instead of explaining intent' },
+  'over-abstraction': { name: 'OverAbstraction', description: 'Interfaces, abstract bases or factories wrapping a single implementation' },
+  'naming-chaos': { name: 'NamingChaos', description: 'Very long descriptive names mixed with generic ones' },
+  'import-bloat': { name: 'ImportBloat', description: 'Repeated or excessive imports' },
+  'monolithic-function': { name: 'MonolithicFunction', description: 'A single function or component doing too much' },
+  'catch-all-error': { name: 'CatchAllError', description: 'Catch blocks that log or swallow errors without handling them' }
+};
+
+const SECRET_RULES: Record<SecretKind, { name: string; description: string }> = {
+  'private-key': { name: 'PrivateKey', description: 'Private key block committed to the repository' },
+  'aws-access-key': { name: 'AwsAccessKey', description: 'AWS access key ID committed to the repository' },
+  'aws-secret-key': { name: 'AwsSecretKey', description: 'AWS secret access key committed to the repository' },
+  jwt: { name: 'JsonWebToken', description: 'JSON Web Token committed to the repository' },
+  'env-assignment': { name: 'CredentialAssignment', description: 'Password, token or API key assigned a literal value' },
+  'high-entropy': { name: 'HighEntropyString', description: 'Random-looking string literal that may be a credential' }
+};
+
+export function formatSarifReviewResult(result: ReviewResult, toolVersion: string): string {
+  const rules = buildRules();
+  const ruleIndex = new Map(rules.map((rule, index) => [rule.id, index]));
+  const results: SarifResult[] = [];
+
+  for (const file of result.files) {
+    const first = results.length;
+    for (const { hunk, secrets, aiReview, patterns } of file.hunks) {
+      for (const secret of secrets || []) {
+        const ruleId = `reviewpal/secret/${secret.kind}`;
+        results.push({
+          ruleId,
+          ruleIndex: ruleIndex.get(ruleId) ?? -1,
+          level: 'error',
+          message: {
+            text: `${secret.issue}. ${secret.suggestion}`,
+            markdown: `${secret.issue}\n\n**Suggestion:** ${secret.suggestion}`
+          },
+          locations: [location(file.filename, secret.line)]
+        });
+      }
+
+      for (const item of aiReview?.critical || []) {
+        const ruleId = `reviewpal/${item.type}`;
+        results.push({
+          ruleId,
+          ruleIndex: ruleIndex.get(ruleId) ?? -1,
+          level: 'error',
+          message: {
+            text: `${item.issue} ${item.friendlySuggestion}`,
+            markdown: `${item.issue}\n\n**Suggestion:** ${item.friendlySuggestion}`
+          },
+          locations: [location(file.filename, item.fileLevel ? undefined : item.line)],
+          properties: item.reportedLine !== undefined
+            ? { friendlySuggestion: item.friendlySuggestion, reportedLine: item.reportedLine }
+            : { friendlySuggestion: item.friendlySuggestion }
+        });
+      }
+
+      for (const match of patterns?.patternsFound || []) {
+        const ruleId = `reviewpal/pattern/${match.type}`;
+        const lines = match.lines.length > 0 ? match.lines : [hunk.startLine];
+        results.push({
+          ruleId,
+          ruleIndex: ruleIndex.get(ruleId) ?? -1,
+          level: 'warning',
+          message: {
+            text: match.simplerAlternative ? `${match.issue}. ${match.simplerAlternative}` : match.issue,
+            markdown: match.simplerAlternative
+              ? `${match.issue}\n\n**Simpler alternative:** ${match.simplerAlternative}`
+              : match.issue
+          },
+          locations: [location(file.filename, Math.min(...lines), Math.max(...lines))],
+          properties: { lines: match.lines }
+        });
+      }
+    }
+
+    if (file.commit) {
+      const { hash, subject } = file.commit;
+      results.slice(first).forEach(item => { item.properties = { ...item.properties, commit: hash, commitSubject: subject }; });
+    }
+  }
+
+  const sarif = {
+    $schema: SARIF_SCHEMA,
+    version: '2.1.0',
+    runs: [{
+      tool: {
+        driver: {
+          name: 'ReviewPal',
+          version: toolVersion,
+          informationUri: 'https://github.com/Arephan/reviewpal',
+          rules
+        }
+      },
+      results,
+      properties: {
+        aiCodeLikelihood: result.aiCodeLikelihood,
+        totalHunks: result.totalHunks,
+        overMaxHunks: result.files.flatMap(file => file.hunks).filter(hunk => hunk.status === 'over-max-hunks').length,
+        usage: result.usage
+      }
+    }]
+  };
+
+  return JSON.stringify(sarif, null, 2);
+}
+
+function buildRules(): SarifRule[] {
+  const critical = (Object.keys(CRITICAL_RULES) as CriticalType[]).map(type => ({
+    id: `reviewpal/${type}`,
+    name: CRITICAL_RULES[type].name,
+    shortDescription: { text: CRITICAL_RULES[type].description },
+    fullDescription: { text: `${CRITICAL_RULES[type].description} (reported by AI review).` },
+    defaultConfiguration: { level: 'error' as SarifLevel },
+    properties: {
+      tags: type === 'security' ? ['security', 'reviewpal'] : ['reliability', 'reviewpal'],
+      'security-severity': CRITICAL_RULES[type].securitySeverity
+    }
+  }));
+
+  const patterns = (Object.keys(PATTERN_RULES) as PatternType[]).map(type => ({
+    id: `reviewpal/pattern/${type}`,
+    name: PATTERN_RULES[type].name,
+    shortDescription: { text: PATTERN_RULES[type].description },
+    fullDescription: { text: `${PATTERN_RULES[type].description} (AI-generated code pattern).` },
+    defaultConfiguration: { level: 'warning' as SarifLevel },
+    properties: { tags: ['maintainability', 'ai-pattern', 'reviewpal'] }
+  }));
+
+  const secrets = (Object.keys(SECRET_RULES) as SecretKind[]).map(kind => ({
+    id: `reviewpal/secret/${kind}`,
+    name: SECRET_RULES[kind].name,
+    shortDescription: { text: SECRET_RULES[kind].description },
+    fullDescription: { text: `${SECRET_RULES[kind].description} (detected locally, never sent to the AI).` },
+    defaultConfiguration: { level: 'error' as SarifLevel },
+    properties: { tags: ['security', 'secret', 'reviewpal'], 'security-severity': '9.0' }
+  }));
+
+  return [...critical, ...secrets, ...patterns];
+}
+
+function location(uri: string, startLine?: number, endLine?: number): SarifResult['locations'][number] {
+  if (startLine === undefined) {
+    return { physicalLocation: { artifactLocation: { uri } } };
+  }
+  // SARIF lines are 1-based; the model occasionally reports 0
+  const start = Math.max(1, startLine);
+  const region: { startLine: number; endLine?: number } = { startLine: start };
+  if (endLine !== undefined && endLine > start) {
+    region.endLine = endLine;
+  }
+  return { physicalLocation: { artifactLocation: { uri }, region } };
+}
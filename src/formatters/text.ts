@@ -0,0 +1,147 @@
+/**
+ * Plain-text output (no ANSI colors, no emoji) for logs and non-unicode terminals
+ */
+
+import { CommitInfo, HunkAnalysis, ReviewResult } from '../types.js';
+import { formatUsage } from '../usage.js';
+import { formatCommitLabel } from './friendly.js';
+
+// Common typography from model output and file contents, spelled in ASCII
+const ASCII_SPELLING: Array<[RegExp, string]> = [
+  [/[→⇒⟶]/g, '->'],
+  [/[←⇐⟵]/g, '<-'],
+  [/[↔⇔]/g, '<->'],
+  [/[“”„″]/g, '"'],
+  [/[‘’‚′]/g, "'"],
+  [/[–—―−]/g, '-'],
+  [/…/g, '...'],
+  [/[•·]/g, '*'],
+  [/×/g, 'x'],
+  [/≤/g, '<='],
+  [/≥/g, '>='],
+  [/≠/g, '!='],
+  [/[─━┄┈═]/g, '-'],
+  [/[│┃┆┊║]/g, '|'],
+  [/[┌┐└┘├┤┬┴┼╔╗╚╝╠╣╦╩╬]/g, '+'],
+  [/\t/g, '  ']
+];
+
+// Exponents like 2⁵³, which NFKD would flatten into 253
+const SUPERSCRIPT = /[⁻⁰¹²³⁴⁵⁶⁷⁸⁹]+/g;
+
+export function formatTextReviewResult(result: ReviewResult): string {
+  const lines: string[] = ['ReviewPal review', '================'];
+
+  lines.push(
+    `Files: ${result.files.length}  Hunks: ${result.totalHunks}  ` +
+    `AI likelihood: ${result.aiCodeLikelihood}  Time: ${(result.totalProcessingTime / 1000).toFixed(1)}s`,
+    `Usage: ${formatUsage(result.usage)}`
+  );
+  if (result.aiLikelihood.signals.length > 0) {
+    lines.push(`Signals: ${result.aiLikelihood.signals.join('; ')}`);
+  }
+
+  let commit: CommitInfo | undefined;
+  for (const file of result.files) {
+    if (file.hunks.length === 0) continue;
+    if (file.commit && file.commit !== commit) {
+      commit = file.commit;
+      lines.push('', `COMMIT ${formatCommitLabel(commit)}`, `Author: ${commit.author}`);
+    }
+
+    const likelihood = file.aiLikelihood ? `, AI likelihood ${file.aiLikelihood.level}` : '';
+    const change = file.oldFilename ? `, ${file.changeKind} from ${file.oldFilename}` : file.changeKind !== 'modified' ? `, ${file.changeKind}` : '';
+    lines.push('', `FILE ${file.filename} (complexity ${file.overallComplexity}/10${likelihood}${change})`);
+
+    for (const hunk of file.hunks) {
+      lines.push(...formatHunk(hunk).map(line => `  ${line}`));
+    }
+  }
+
+  if (result.skippedFiles.length > 0) {
+    lines.push('');
+    result.skippedFiles.forEach(skipped => lines.push(`SKIPPED ${skipped.filename} (${skipped.reason})`));
+  }
+
+  return lines.map(plain).join('\n');
+}
+
+function formatHunk(analysis: HunkAnalysis): string[] {
+  const { hunk, aiReview, summary, patterns, complexity } = analysis;
+  const language = aiReview && aiReview.language !== 'Unknown' ? ` [${aiReview.language}]` : '';
+  const lines = [`Lines ${hunk.startLine}-${hunk.endLine}${language}`];
+
+  if (analysis.status === 'not-analyzed') {
+    lines.push('  NOT ANALYZED: AI analysis failed');
+  } else if (analysis.status === 'analysis-failed') {
+    lines.push('  ANALYSIS FAILED: AI response was invalid');
+  } else if (analysis.status === 'over-budget') {
+    lines.push('  NOT ANALYZED: review budget used up');
+  } else if (analysis.status === 'over-max-hunks') {
+    lines.push(`  NOT ANALYZED: over --max-hunks${analysis.risk ? ` (risk ${analysis.risk.score})` : ''}, local checks only`);
+  }
+  if (hunk.trivial) {
+    const from = hunk.trivial.movedFrom;
+    lines.push(from ? `  MOVED from ${from.filename}:${from.line} (not re-reviewed)` : '  FORMATTING ONLY (not re-reviewed)');
+  }
+  analysis.errors?.forEach(error => lines.push(`  ERROR ${error}`));
+  analysis.skippedRanges?.forEach(range =>
+    lines.push(`  NOT REVIEWED lines ${range.startLine}-${range.endLine}: hunk too large`)
+  );
+
+  if (aiReview) {
+    lines.push(`  Summary: ${aiReview.summary}`);
+  }
+
+  if (summary) {
+    lines.push(`  What: ${summary.what}`, `  Why: ${summary.why}`);
+    summary.watch.forEach(item => lines.push(`  Watch: ${item}`));
+  }
+
+  for (const secret of analysis.secrets || []) {
+    lines.push(`  SECRET line ${secret.line}: ${secret.issue}`);
+    lines.push(`    Fix: ${secret.suggestion}`);
+  }
+
+  for (const item of aiReview?.critical || []) {
+    const approximate = item.reportedLine !== undefined ? ` (approx., model said ${item.reportedLine})` : '';
+    const where = item.fileLevel ? 'in removed code' : `line ${item.line}${approximate}`;
+    lines.push(`  CRITICAL ${item.type} ${where}: ${item.issue}`);
+    lines.push(`    Fix: ${item.friendlySuggestion}`);
+  }
+
+  for (const match of patterns?.patternsFound || []) {
+    lines.push(`  PATTERN ${match.type} lines ${match.lines.join(', ')}: ${match.issue}`);
+    if (match.simplerAlternative) {
+      lines.push(`    Simpler: ${match.simplerAlternative}`);
+    }
+  }
+  if (patterns?.keyQuestion && patterns.patternsFound.length > 0) {
+    lines.push(`  Question: ${patterns.keyQuestion}`);
+  }
+
+  if (complexity) {
+    const metrics = Object.entries(complexity.metrics).map(([metric, value]) => `${metric}=${value}`).join(' ');
+    lines.push(`  COMPLEXITY ${complexity.score}/10 (${metrics})`);
+    for (const flag of complexity.flags) {
+      lines.push(`    ${flag.severity.toUpperCase()} ${flag.metric} ${flag.value} > ${flag.threshold}`);
+    }
+  }
+
+  return lines;
+}
+
+/**
+ * Printable ASCII only: typography is spelled out, exponents become ^N, accents are dropped,
+ * emoji and other pictographs are removed and anything left becomes "?"
+ */
+function plain(line: string): string {
+  const exponents = line.replace(SUPERSCRIPT, digits => `^${digits.normalize('NFKD').replace(/−/g, '-')}`);
+  return ASCII_SPELLING
+    .reduce((text, [pattern, replacement]) => text.replace(pattern, replacement), exponents)
+    .normalize('NFKD')
+    .replace(/[\p{M}\u200B-\u200D\u2060\uFE00-\uFE0F]/gu, '')
+    .replace(/[\p{Extended_Pictographic}\p{Emoji_Modifier}\p{Regional_Indicator}]+ ?/gu, '')
+    .replace(/[^\x20-\x7E\n]/gu, '?')
+    .trimEnd();
+}
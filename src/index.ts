@@ -12,18 +12,39 @@
 import { Command } from 'commander';
 import { readFileSync, existsSync } from 'fs';
 import { execSync } from 'child_process';
+import { resolve } from 'path';
 import ora from 'ora';
 import chalk from 'chalk';
 
-import { parseDiff } from './parsers/diff.js';
-import { initClaudeClient, reviewCode } from './api/claude.js';
+import { parseDiff, unreviewableReason } from './parsers/diff.js';
+import { isPatchSeries, parsePatchSeries } from './parsers/mbox.js';
+import { buildReviewPrompt, REVIEW_MAX_TOKENS, REVIEW_TOOL } from './api/review.js';
+import { estimateCall, initProvider, PROVIDER_NAMES } from './api/provider.js';
 import { formatFriendlyReviewResult } from './formatters/friendly.js';
+import { formatMarkdownReviewResult } from './formatters/markdown.js';
+import { formatTextReviewResult } from './formatters/text.js';
+import { formatGithubReviewResult } from './formatters/github.js';
+import { formatSarifReviewResult } from './formatters/sarif.js';
+import { buildSummaryPrompt, SUMMARY_MAX_TOKENS } from './analyzers/summary.js';
+import { detectTrivialChanges } from './analyzers/moves.js';
+import { scoreRisk } from './analyzers/risk.js';
+import { fileComplexity } from './analyzers/complexity.js';
+import { hunksLikelihood } from './analyzers/likelihood.js';
+import { CliOptions, resolveConfig } from './config.js';
+import { exclusionReason, resolvePathConfig } from './paths.js';
+import { mapWithConcurrency } from './pool.js';
+import { pruneCache } from './cache.js';
+import { analyzeHunk, prepareHunk, selectAiHunks, usesAi, withoutAi } from './analyze.js';
+import { attachContext, newSideLocation, SourceLocation } from './context.js';
+import { addUsage, budgetReached, createUsageLedger, emptyUsage, formatUsage, priceFor, withCost } from './usage.js';
 import {
+  Config,
   DiffHunk,
-  HunkAnalysis,
   FileAnalysis,
   ReviewResult,
+  SkippedFile,
   OutputFormat,
+  TokenUsage,
   DEFAULT_CONFIG
 } from './types.js';
 
@@ -38,9 +59,27 @@ async function main() {
     .version(VERSION)
     .argument('[input]', 'Diff file, git range, or - for stdin')
     .option('-g, --git <range>', 'Use git diff for the specified range')
-    .option('-f, --format <type>', 'Output format: friendly, json', 'friendly')
-    .option('-m, --max-hunks <n>', 'Maximum hunks to analyze', '20')
-    .option('--model <name>', 'Claude model to use', DEFAULT_CONFIG.model)
+    .option('--by-commit', 'Review a git range commit by commit instead of as one diff')
+    .option('-c, --config <path>', 'Config file (default: nearest .reviewpalrc.json or reviewpal.config.json)')
+    .option('--include <globs...>', 'Only review paths matching these globs')
+    .option('--exclude <globs...>', 'Never review paths matching these globs')
+    .option('-f, --format <type>', 'Output format: friendly, markdown, text, github, json, sarif', 'friendly')
+    .option('-m, --max-hunks <n>', 'Maximum hunks sent to the AI; the rest get local checks only', '20')
+    .option('--concurrency <n>', `Hunks to analyze in parallel (default: ${DEFAULT_CONFIG.concurrency})`)
+    .option('--timeout <seconds>', `Per-request API timeout (default: ${DEFAULT_CONFIG.requestTimeout})`)
+    .option('--context-lines <n>', `Lines of surrounding code sent with each hunk, 0 for none (default: ${DEFAULT_CONFIG.contextLines})`)
+    .option('--no-cache', 'Always call the API, ignoring cached results')
+    .option('--cache-dir <path>', `Cache directory (default: ${DEFAULT_CONFIG.cacheDir})`)
+    .option('--provider <name>', `LLM provider: ${PROVIDER_NAMES.join(', ')} (default: ${DEFAULT_CONFIG.provider})`)
+    .option('--base-url <url>', 'OpenAI-compatible endpoint, e.g. http://localhost:11434/v1 for Ollama')
+    .option('--model <name>', 'Model to use', DEFAULT_CONFIG.model)
+    .option('--record <dir>', 'Save every model request/response pair as a fixture in <dir>')
+    .option('--replay <dir>', 'Answer from fixtures saved with --record instead of calling the model')
+    .option('--budget <amount>', 'Never send an AI call that could take the run past this many tokens (200k) or dollars ($0.50)')
+    .option('--dry-run', 'Report the estimated tokens and cost without calling the model')
+    .option('--no-summary', 'Skip per-hunk WHAT/WHY/WATCH summaries')
+    .option('--no-patterns', 'Skip local AI-pattern detection')
+    .option('--no-complexity', 'Skip complexity metrics')
     .option('-q, --quiet', 'Minimal output')
     .action(runReview);
   
@@ -49,20 +88,24 @@ async function main() {
 
 async function runReview(
   input: string | undefined,
-  options: {
-    git?: string;
-    format: string;
-    maxHunks: string;
-    model: string;
-    quiet: boolean;
-  }
+  options: CliOptions,
+  command: Command
 ) {
   const spinner = ora({ isSilent: options.quiet });
   
+  let config: Config;
+  try {
+    config = resolveConfig(options, key => command.getOptionValueSource(key) === 'cli');
+  } catch (error) {
+    spinner.fail('Invalid config');
+    console.error(chalk.red(error instanceof Error ? error.message : String(error)));
+    process.exit(1);
+  }
+  
   try {
     // Get diff content
     spinner.start('Reading diff...');
-    const diffContent = await getDiffContent(input, options.git);
+    const diffContent = await getDiffContent(input, options.git, options.byCommit);
     
     if (!diffContent.trim()) {
       spinner.fail('No diff content found');
@@ -73,7 +116,7 @@ async function runReview(
     
     // Parse diff
     spinner.start('Parsing diff...');
-    const parsed = parseDiff(diffContent);
+    const parsed = isPatchSeries(diffContent) ? parsePatchSeries(diffContent) : parseDiff(diffContent);
     
     if (parsed.files.length === 0) {
       spinner.warn('No files in diff');
@@ -81,55 +124,152 @@ async function runReview(
     }
     
     const totalHunks = parsed.files.reduce((a, f) => a + f.hunks.length, 0);
-    spinner.succeed(`Parsed ${parsed.files.length} files, ${totalHunks} hunks`);
+    const commits = new Set(parsed.files.map(file => file.commit).filter(Boolean)).size;
+    const commitNote = commits > 0 ? `${commits} commits, ` : '';
+    spinner.succeed(`Parsed ${commitNote}${parsed.files.length} files, ${totalHunks} hunks`);
+    
+    // Drop excluded paths, binaries and pure renames before they eat into the hunk budget
+    const skippedFiles: SkippedFile[] = [];
+    const reviewFiles = parsed.files.filter(file => {
+      const reason = exclusionReason(file.filename, config) ?? unreviewableReason(file);
+      if (reason) skippedFiles.push({ filename: file.filename, reason });
+      return !reason;
+    });
+    if (skippedFiles.length > 0) {
+      spinner.info(`Skipping ${skippedFiles.length} files (excluded, binary or without content changes)`);
+    }
+    
+    // Surrounding code lets the model tell a refactor from new behavior
+    if (config.contextLines > 0) {
+      const gitRange = options.git ?? (input && input !== '-' && !existsSync(input) ? input : undefined);
+      const locations = [...new Set<SourceLocation>([newSideLocation(gitRange), null, ''])];
+      const withContext = attachContext(reviewFiles, locations, config.contextLines);
+      if (withContext < reviewFiles.length) {
+        spinner.info(`No surrounding code for ${reviewFiles.length - withContext} of ${reviewFiles.length} files (not found or out of date locally)`);
+      }
+    }
+    
+    // Moved and re-indented code was already reviewed where it came from
+    const trivialHunks = detectTrivialChanges(parsed.files);
+    if (trivialHunks > 0) {
+      spinner.info(`${trivialHunks} hunks only move or reformat code; skipping AI review for them`);
+    }
+    
+    // The riskiest hunks get the --max-hunks slots for AI calls; the rest only get the local analyzers
+    const maxHunks = Number(options.maxHunks);
+    const candidates = reviewFiles.flatMap((file, fileIndex) => {
+      const fileConfig = resolvePathConfig(file.filename, config);
+      return file.hunks.map(hunk => ({
+        fileIndex,
+        hunk,
+        config: hunk.trivial ? withoutAi(fileConfig) : fileConfig,
+        risk: scoreRisk(hunk, fileConfig.complexityThresholds)
+      }));
+    });
+    const jobs = selectAiHunks(candidates, maxHunks);
+    const aiCandidates = candidates.filter(candidate => usesAi(candidate.config)).length;
+    const capped = jobs.filter(job => job.overMaxHunks).length;
+    if (capped > 0) {
+      spinner.info(`AI-reviewing the ${aiCandidates - capped} highest-risk of ${aiCandidates} hunks (--max-hunks ${maxHunks}); the rest get local checks only`);
+    }
     
-    // Initialize Claude
+    // Estimate from the prompts that would be sent, without touching the provider or the cache
+    if (options.dryRun) {
+      console.log(formatEstimate(estimateUsage(jobs), jobs.length, config, options.format as OutputFormat));
+      return;
+    }
+    
+    // Initialize the LLM provider
     spinner.start('Initializing AI...');
     try {
-      initClaudeClient();
-      spinner.succeed('AI ready');
+      initProvider(config.provider, {
+        apiKey: config.provider === 'openai' ? config.openaiApiKey : config.anthropicApiKey,
+        baseUrl: config.baseUrl,
+        timeoutMs: config.requestTimeout * 1000,
+        maxRetries: config.maxRetries,
+        fakeRules: config.fakeRules,
+        recordDir: options.record && resolve(options.record),
+        replayDir: options.replay && resolve(options.replay)
+      });
+      spinner.succeed(`AI ready (${options.replay ? `replaying ${options.replay}` : config.provider}, ${config.model})`);
     } catch (e) {
       spinner.fail('AI initialization failed');
-      console.error(chalk.red('\nANTHROPIC_API_KEY environment variable required.'));
-      console.error(chalk.dim('Get your key at: https://console.anthropic.com'));
+      console.error(chalk.red(`\n${e instanceof Error ? e.message : String(e)}`));
+      if (config.provider === 'anthropic') {
+        console.error(chalk.dim('Get your key at: https://console.anthropic.com'));
+      }
       process.exit(1);
     }
     
-    // Analyze hunks
-    const maxHunks = parseInt(options.maxHunks, 10);
+    if (config.cache) {
+      const pruned = pruneCache(resolve(config.cacheDir), {
+        maxAgeMs: config.cacheMaxAgeDays * 24 * 60 * 60 * 1000,
+        maxBytes: config.cacheMaxSizeMb * 1024 * 1024
+      });
+      if (pruned > 0) spinner.info(`Pruned ${pruned} stale cache entries`);
+    }
+    
+    // Analyze hunks in parallel; AI calls the budget can't cover are not sent, and their hunks
+    // only get the local analyzers
+    const price = priceFor(config.model, config.pricePerMillionTokens);
+    const ledger = createUsageLedger(config.budget, price);
     const startTime = Date.now();
-    const fileAnalyses: FileAnalysis[] = [];
-    let processedHunks = 0;
-    
-    for (const file of parsed.files) {
-      const hunkAnalyses: HunkAnalysis[] = [];
-      
-      for (const hunk of file.hunks.slice(0, maxHunks - processedHunks)) {
-        if (processedHunks >= maxHunks) break;
-        
-        spinner.start(`Analyzing ${file.filename}:${hunk.startLine}...`);
-        const analysis = await analyzeHunk(hunk, file.filename, options.model);
-        hunkAnalyses.push(analysis);
-        
-        processedHunks++;
-      }
-      
-      fileAnalyses.push({
+    spinner.start(`Analyzing hunks (0/${jobs.length})...`);
+    const analyses = await mapWithConcurrency(
+      jobs,
+      config.concurrency,
+      async job => {
+        const analysis = job.overMaxHunks
+          ? { ...await analyzeHunk(job.hunk, job.config), status: 'over-max-hunks' as const }
+          : await analyzeHunk(job.hunk, job.config, ledger);
+        return { ...analysis, risk: job.risk };
+      },
+      (completed, total) => { spinner.text = `Analyzing hunks (${completed}/${total})...`; }
+    );
+    
+    const fileAnalyses: FileAnalysis[] = reviewFiles.map((file, fileIndex) => {
+      const hunkAnalyses = analyses.filter((_, i) => jobs[i].fileIndex === fileIndex);
+      const fileAnalysis: FileAnalysis = {
         filename: file.filename,
+        oldFilename: file.oldFilename,
+        changeKind: file.changeKind,
+        commit: file.commit,
         hunks: hunkAnalyses,
         overallComplexity: 0
-      });
-    }
+      };
+      fileAnalysis.overallComplexity = fileComplexity(fileAnalysis);
+      fileAnalysis.aiLikelihood = hunksLikelihood(hunkAnalyses);
+      return fileAnalysis;
+    });
     
     const totalTime = Date.now() - startTime;
-    spinner.succeed(`Analysis complete (${(totalTime / 1000).toFixed(1)}s)`);
+    const failed = analyses.filter(a => a.status !== 'analyzed').length;
+    const cacheHits = analyses.filter(a => a.cached).length;
+    const cacheNote = cacheHits > 0 ? `, ${cacheHits} from cache` : '';
+    const totalUsage = withCost(ledger.used, price);
+    const stats = `${(totalTime / 1000).toFixed(1)}s, ${formatUsage(totalUsage)}${cacheNote}`;
+    const overBudget = analyses.filter(a => a.status === 'over-budget').length;
+    const overMaxHunks = analyses.filter(a => a.status === 'over-max-hunks').length;
+    if (failed > 0) {
+      const budgetNote = [
+        overBudget > 0 ? `${overBudget} over budget` : '',
+        overMaxHunks > 0 ? `${overMaxHunks} over --max-hunks` : ''
+      ].filter(Boolean).join(', ');
+      spinner.warn(`Analysis complete (${stats}) - ${failed} of ${analyses.length} hunks could not be analyzed${budgetNote ? ` (${budgetNote})` : ''}`);
+    } else {
+      spinner.succeed(`Analysis complete (${stats})`);
+    }
     
     // Build result
+    const aiLikelihood = hunksLikelihood(fileAnalyses.flatMap(f => f.hunks));
     const result: ReviewResult = {
       files: fileAnalyses,
-      totalHunks: processedHunks,
+      totalHunks: analyses.length,
       totalProcessingTime: totalTime,
-      aiCodeLikelihood: 'medium'
+      aiCodeLikelihood: aiLikelihood.level,
+      aiLikelihood,
+      skippedFiles,
+      usage: totalUsage
     };
     
     // Format and output
@@ -143,13 +283,22 @@ async function runReview(
   }
 }
 
+
 /**
- * Get diff content from various sources
+ * Get diff content from various sources. With `byCommit`, a git range is read as a
+ * format-patch series so each commit is reviewed separately.
  */
-async function getDiffContent(input?: string, gitRange?: string): Promise<string> {
+async function getDiffContent(input?: string, gitRange?: string, byCommit = false): Promise<string> {
+  const gitCommand = (range: string) => byCommit ? `git format-patch --stdout ${range}` : `git diff ${range}`;
+  
   // Git range specified
   if (gitRange) {
-    return execSync(`git diff ${gitRange}`, { encoding: 'utf-8' });
+    return execSync(gitCommand(gitRange), { encoding: 'utf-8', maxBuffer: 100 * 1024 * 1024 });
+  }
+  
+  // Diff files and stdin are reviewed per commit when they hold a patch series
+  if (byCommit && (input === '-' || !input || existsSync(input))) {
+    throw new Error('--by-commit needs a git range; patch files and mboxes are split into commits automatically');
   }
   
   // Stdin
@@ -183,37 +332,78 @@ async function getDiffContent(input?: string, gitRange?: string): Promise<string
   }
   
   // Assume it's a git range
-  return execSync(`git diff ${input}`, { encoding: 'utf-8' });
+  return execSync(gitCommand(input), { encoding: 'utf-8', maxBuffer: 100 * 1024 * 1024 });
 }
 
 /**
- * Analyze a single hunk with AI
+ * Upper-bound usage for a run: every enabled AI call, a full-length answer each, no cache hits
  */
-async function analyzeHunk(
-  hunk: DiffHunk,
-  filename: string,
-  model: string
-): Promise<HunkAnalysis> {
-  const startTime = Date.now();
+function estimateUsage(jobs: Array<{ hunk: DiffHunk; config: Config }>): { usage: TokenUsage; calls: number } {
+  const usage = emptyUsage();
+  let calls = 0;
   
-  const addedCode = hunk.additions.join('\n');
-  const review = await reviewCode(addedCode, filename, model);
+  for (const { hunk, config } of jobs) {
+    for (const chunk of prepareHunk(hunk, config).reviewedChunks) {
+      if (config.enabledAnalyzers.aiReview) {
+        addUsage(usage, estimateCall(buildReviewPrompt(chunk), REVIEW_MAX_TOKENS, REVIEW_TOOL));
+        calls++;
+      }
+      if (config.enabledAnalyzers.summary) {
+        addUsage(usage, estimateCall(buildSummaryPrompt(chunk), SUMMARY_MAX_TOKENS));
+        calls++;
+      }
+    }
+  }
   
-  return {
-    hunk,
-    aiReview: review,
-    processingTime: Date.now() - startTime
-  };
+  return { usage, calls };
+}
+
+function formatEstimate(
+  estimate: { usage: TokenUsage; calls: number },
+  hunks: number,
+  config: Config,
+  format: OutputFormat
+): string {
+  const price = priceFor(config.model, config.pricePerMillionTokens);
+  const usage = withCost(estimate.usage, price);
+  const overBudget = config.budget !== undefined && budgetReached(usage, config.budget, price);
+  
+  if (format === 'json') {
+    return JSON.stringify({ dryRun: true, model: config.model, hunks, calls: estimate.calls, ...usage, overBudget }, null, 2);
+  }
+  
+  const lines = [
+    `Dry run for ${config.model} - no API calls made`,
+    `  Hunks:          ${hunks}`,
+    `  API calls:      ${estimate.calls}`,
+    `  Input tokens:   ~${usage.inputTokens.toLocaleString('en-US')}`,
+    `  Output tokens:  up to ${usage.outputTokens.toLocaleString('en-US')}`,
+    `  Estimated cost: ${usage.costUsd !== undefined ? `up to $${usage.costUsd.toFixed(4)}` : 'unknown (no price for this model, set "pricePerMillionTokens")'}`
+  ];
+  if (overBudget) {
+    lines.push('  The --budget may run out before every hunk is reviewed.');
+  }
+  return lines.join('\n');
 }
 
 /**
  * Format output based on requested format
  */
 function formatOutput(result: ReviewResult, format: OutputFormat): string {
-  if (format === 'json') {
-    return JSON.stringify(result, null, 2);
+  switch (format) {
+    case 'json':
+      return JSON.stringify(result, null, 2);
+    case 'markdown':
+      return formatMarkdownReviewResult(result);
+    case 'text':
+      return formatTextReviewResult(result);
+    case 'github':
+      return formatGithubReviewResult(result);
+    case 'sarif':
+      return formatSarifReviewResult(result, VERSION);
+    default:
+      return formatFriendlyReviewResult(result);
   }
-  return formatFriendlyReviewResult(result);
 }
 
 // Run
@@ -0,0 +1,116 @@
+/**
+ * Split oversized hunks into smaller hunks at blank lines or function boundaries
+ */
+
+import { DiffHunk, DiffLine } from '../types.js';
+import { deriveHunkText, DIFF_MARKERS } from './diff.js';
+
+/**
+ * Rough token count for code: about four characters per token
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Split `hunk` into consecutive hunks of at most `maxTokens` each (a single longer line
+ * becomes its own chunk). Every chunk carries correct new-file line numbers, so
+ * findings from it can be reported against the original file.
+ */
+export function splitHunk(hunk: DiffHunk, maxTokens: number): DiffHunk[] {
+  if (estimateTokens(hunk.content) <= maxTokens) {
+    return [hunk];
+  }
+
+  const { lines } = hunk;
+  const chunks: DiffHunk[] = [];
+  let start = 0;
+  let tokens = 0;
+
+  for (let i = 0; i < lines.length; i++) {
+    const lineTokens = diffLineTokens(lines[i]);
+    if (tokens + lineTokens > maxTokens && i > start) {
+      const end = findBoundary(lines, start, i);
+      chunks.push(buildChunk(hunk, lines.slice(start, end)));
+      tokens = lines.slice(end, i).reduce((sum, line) => sum + diffLineTokens(line), 0);
+      start = end;
+    }
+    tokens += lineTokens;
+  }
+  chunks.push(buildChunk(hunk, lines.slice(start)));
+
+  return chunks.filter(chunk => chunk.additions.length > 0 || chunk.deletions.length > 0);
+}
+
+/**
+ * Best place to end a chunk covering lines[start..limit): just after the last blank
+ * line or closing brace in its second half, or at `limit` when there is none
+ */
+function findBoundary(lines: DiffLine[], start: number, limit: number): number {
+  const earliest = start + Math.ceil((limit - start) / 2);
+  let fallback = -1;
+
+  for (let i = limit - 1; i >= earliest; i--) {
+    const { kind, text } = lines[i];
+    if (kind === 'remove') {
+      continue;
+    }
+    if (text.trim() === '') {
+      return i + 1;
+    }
+    // A shallow closing brace usually ends a function, class or top-level block
+    if (fallback === -1 && /^\s{0,2}[}\])][;,)]*\s*$/.test(text)) {
+      fallback = i + 1;
+    }
+  }
+
+  return fallback !== -1 ? fallback : limit;
+}
+
+/**
+ * Tokens for a line as it appears in the diff, including its marker and newline
+ */
+function diffLineTokens(line: DiffLine): number {
+  return estimateTokens(DIFF_MARKERS[line.kind] + line.text) + 1;
+}
+
+function buildChunk(hunk: DiffHunk, lines: DiffLine[]): DiffHunk {
+  const newSide = lines.filter(line => line.kind !== 'remove').map(line => line.newLine as number);
+  // A chunk of only removed lines sits just before the next new-side line
+  const startLine = newSide[0] ?? nextNewLine(hunk, lines);
+  const endLine = newSide[newSide.length - 1] ?? startLine;
+
+  return {
+    ...hunk,
+    startLine,
+    endLine,
+    ...deriveHunkText(lines),
+    ...chunkContext(hunk, startLine, endLine)
+  };
+}
+
+/**
+ * The part of the hunk's surrounding code that surrounds lines startLine..endLine,
+ * with as many lines above and below as the hunk itself got
+ */
+function chunkContext(hunk: DiffHunk, startLine: number, endLine: number): Pick<DiffHunk, 'context' | 'contextStartLine'> {
+  if (!hunk.context || hunk.contextStartLine === undefined) {
+    return { context: '', contextStartLine: undefined };
+  }
+
+  const lines = hunk.context.split('\n');
+  const contextEndLine = hunk.contextStartLine + lines.length - 1;
+  const margin = Math.max(hunk.startLine - hunk.contextStartLine, contextEndLine - hunk.endLine);
+  const first = Math.max(hunk.contextStartLine, startLine - margin);
+  const last = Math.min(contextEndLine, endLine + margin);
+
+  return {
+    context: lines.slice(first - hunk.contextStartLine, last - hunk.contextStartLine + 1).join('\n'),
+    contextStartLine: first
+  };
+}
+
+function nextNewLine(hunk: DiffHunk, chunkLines: DiffLine[]): number {
+  const after = hunk.lines.slice(hunk.lines.indexOf(chunkLines[chunkLines.length - 1]) + 1);
+  return after.find(line => line.kind !== 'remove')?.newLine ?? hunk.endLine + 1;
+}
@@ -0,0 +1,168 @@
+/**
+ * Lightweight source helpers shared by the local analyzers
+ */
+
+import { DiffHunk } from '../types.js';
+
+export interface NumberedLine {
+  line: number;   // line number in the new file
+  text: string;
+}
+
+export interface FunctionSpan {
+  name: string;
+  startIndex: number;  // index into the numbered line array
+  endIndex: number;
+}
+
+/**
+ * Added lines of a hunk with their new-file line numbers
+ */
+export function getAddedLines(hunk: DiffHunk): NumberedLine[] {
+  return getNewFileLines(hunk, false);
+}
+
+/**
+ * Added and context lines of a hunk - the new side of the change
+ */
+export function getNewSideLines(hunk: DiffHunk): NumberedLine[] {
+  return getNewFileLines(hunk, true);
+}
+
+function getNewFileLines(hunk: DiffHunk, includeContext: boolean): NumberedLine[] {
+  return hunk.lines
+    .filter(line => line.kind === 'add' || (includeContext && line.kind === 'context'))
+    .map(line => ({ line: line.newLine as number, text: line.text }));
+}
+
+/**
+ * Remove string literals and line comments so braces and keywords can be counted
+ */
+export function stripStringsAndComments(line: string): string {
+  return line
+    .replace(/(["'`])(?:\\.|(?!\1).)*\1/g, '""')
+    .replace(/\/\/.*$/, '')
+    .replace(/\/\*.*?\*\//g, '');
+}
+
+/**
+ * Remove string literals and # comments from a line of Python
+ */
+export function stripPythonStringsAndComments(line: string): string {
+  return line
+    .replace(/(["'])(?:\\.|(?!\1).)*\1/g, '""')
+    .replace(/#.*$/, '');
+}
+
+/**
+ * Check if a line is (part of) a comment
+ */
+export function isCommentLine(line: string): boolean {
+  const trimmed = line.trim();
+  return trimmed.startsWith('//') || trimmed.startsWith('/*') || trimmed.startsWith('*') || trimmed.startsWith('#');
+}
+
+const FUNCTION_START = [
+  /\bfunction\s*\*?\s*(\w+)?\s*\(/,
+  /\b(?:const|let|var)\s+(\w+)\s*=\s*(?:async\s+)?(?:\([^)]*\)|\w+)\s*(?::\s*[^=]+)?=>/,
+  /^\s*(?:public\s+|private\s+|protected\s+|static\s+|async\s+)*(\w+)\s*\([^)]*\)\s*(?::\s*[^{]+)?\{\s*$/
+];
+
+const NOT_A_METHOD = new Set(['if', 'for', 'while', 'switch', 'catch', 'return', 'function']);
+
+/**
+ * Find function-like blocks by brace matching from each declaration. Text heuristic for
+ * languages without a parser here; TS/JS use findTypeScriptFunctionSpans.
+ */
+export function findFunctionSpans(lines: NumberedLine[]): FunctionSpan[] {
+  const spans: FunctionSpan[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    const code = stripStringsAndComments(lines[i].text);
+    const name = matchFunctionStart(code);
+    if (name === null) continue;
+
+    let depth = 0;
+    let opened = false;
+    let end = i;
+
+    for (let j = i; j < lines.length; j++) {
+      const text = stripStringsAndComments(lines[j].text);
+      for (const char of text) {
+        if (char === '{') {
+          depth++;
+          opened = true;
+        } else if (char === '}') {
+          depth--;
+        }
+      }
+      end = j;
+      if (opened && depth <= 0) break;
+      // Expression-bodied arrow function on a single line
+      if (!opened && j === i && !text.trim().endsWith('=>') && !text.includes('{') && !text.trim().endsWith('(')) break;
+    }
+
+    spans.push({ name, startIndex: i, endIndex: end });
+  }
+
+  return spans;
+}
+
+function matchFunctionStart(code: string): string | null {
+  for (const pattern of FUNCTION_START) {
+    const match = code.match(pattern);
+    if (!match) continue;
+    const name = match[1] || 'anonymous';
+    if (NOT_A_METHOD.has(name)) continue;
+    return name;
+  }
+  return null;
+}
+
+export interface PythonStatement {
+  index: number;   // index into the numbered line array
+  indent: number;  // leading whitespace, tabs counted as one column
+}
+
+/**
+ * Lines of Python that start a statement: not blank, not only a comment, and not
+ * continuing brackets opened on an earlier line
+ */
+export function findPythonStatements(lines: NumberedLine[]): PythonStatement[] {
+  const statements: PythonStatement[] = [];
+  let depth = 0;
+
+  lines.forEach(({ text }, index) => {
+    const code = stripPythonStringsAndComments(text);
+    if (depth === 0 && code.trim()) {
+      statements.push({ index, indent: code.length - code.trimStart().length });
+    }
+    for (const char of code) {
+      if ('([{'.includes(char)) depth++;
+      else if (')]}'.includes(char)) depth = Math.max(0, depth - 1);
+    }
+  });
+
+  return statements;
+}
+
+/**
+ * Find Python functions: each `def` runs until the next statement indented no deeper than it
+ */
+export function findPythonFunctionSpans(lines: NumberedLine[]): FunctionSpan[] {
+  const statements = findPythonStatements(lines);
+  const spans: FunctionSpan[] = [];
+
+  statements.forEach((statement, i) => {
+    const match = stripPythonStringsAndComments(lines[statement.index].text).match(/^\s*(?:async\s+)?def\s+(\w+)/);
+    if (!match) return;
+
+    const next = statements.slice(i + 1).find(other => other.indent <= statement.indent);
+    let end = next ? next.index - 1 : lines.length - 1;
+    while (end > statement.index && !lines[end].text.trim()) end--;
+
+    spans.push({ name: match[1], startIndex: statement.index, endIndex: end });
+  });
+
+  return spans;
+}
@@ -3,7 +3,7 @@
  */
 
 import { createHash } from 'crypto';
-import { DiffHunk, DiffFile, ParsedDiff } from '../types.js';
+import { DiffHunk, DiffFile, DiffLine, DiffLineKind, ParsedDiff } from '../types.js';
 
 interface RawHunk {
   oldStart: number;
@@ -11,6 +11,8 @@ interface RawHunk {
   newStart: number;
   newLines: number;
   lines: string[];
+  oldRemaining: number;   // body lines still expected, per the @@ header
+  newRemaining: number;
 }
 
 /**
@@ -18,109 +20,262 @@ interface RawHunk {
  */
 export function parseDiff(diffText: string): ParsedDiff {
   const files: DiffFile[] = [];
-  const lines = diffText.split('\n');
-  
   let currentFile: DiffFile | null = null;
   let currentHunk: RawHunk | null = null;
-  let i = 0;
   
-  while (i < lines.length) {
-    const line = lines[i];
-    
+  const finishFile = () => {
+    if (currentFile && currentHunk) {
+      currentFile.hunks.push(convertHunk(currentHunk, currentFile.filename));
+    }
+    if (currentFile) {
+      files.push(currentFile);
+    }
+    currentHunk = null;
+  };
+  
+  for (const line of diffText.split('\n')) {
     // New file header: diff --git a/path b/path
-    if (line.startsWith('diff --git')) {
-      if (currentFile && currentHunk) {
-        currentFile.hunks.push(convertHunk(currentHunk, currentFile.filename));
-      }
-      if (currentFile) {
-        files.push(currentFile);
-      }
-      
-      // Extract filename from diff header
-      const match = line.match(/diff --git a\/(.+) b\/(.+)/);
-      const filename = match ? match[2] : 'unknown';
-      
+    if (line.startsWith('diff --git ')) {
+      finishFile();
+      const paths = parseGitHeaderPaths(line.slice('diff --git '.length));
       currentFile = {
-        filename,
+        filename: paths?.newPath ?? 'unknown',
+        changeKind: 'modified',
+        binary: false,
         hunks: [],
         additions: 0,
         deletions: 0
       };
-      currentHunk = null;
-      i++;
       continue;
     }
     
-    // Skip index, ---, +++ lines
-    if (line.startsWith('index ') || line.startsWith('---') || line.startsWith('+++')) {
-      i++;
+    if (!currentFile) {
+      continue;
+    }
+    
+    // "\ No newline at end of file" refers to the line just before it
+    if (currentHunk && line.startsWith('\\')) {
+      const previous = currentHunk.lines[currentHunk.lines.length - 1] ?? '';
+      const missing = currentFile.missingNewline ?? { old: false, new: false };
+      if (!previous.startsWith('+')) missing.old = true;
+      if (!previous.startsWith('-')) missing.new = true;
+      currentFile.missingNewline = missing;
+      continue;
+    }
+    
+    // Hunk body: the header's line counts say where it ends, so a removed "-- comment"
+    // line is never mistaken for a "---" file header
+    if (currentHunk && (currentHunk.oldRemaining > 0 || currentHunk.newRemaining > 0)) {
+      if (line.startsWith('+')) {
+        currentHunk.newRemaining--;
+        currentFile.additions++;
+      } else if (line.startsWith('-')) {
+        currentHunk.oldRemaining--;
+        currentFile.deletions++;
+      } else {
+        // Context; some tools strip the leading space from blank context lines
+        currentHunk.oldRemaining--;
+        currentHunk.newRemaining--;
+      }
+      currentHunk.lines.push(line);
       continue;
     }
     
     // New hunk header: @@ -old,count +new,count @@
     if (line.startsWith('@@')) {
-      if (currentFile && currentHunk) {
-        currentFile.hunks.push(convertHunk(currentHunk, currentFile.filename));
-      }
-      
-      const match = line.match(/@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/);
+      const match = line.match(/^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/);
       if (match) {
+        if (currentHunk) {
+          currentFile.hunks.push(convertHunk(currentHunk, currentFile.filename));
+        }
+        const oldLines = match[2] ? parseInt(match[2], 10) : 1;
+        const newLines = match[4] ? parseInt(match[4], 10) : 1;
         currentHunk = {
           oldStart: parseInt(match[1], 10),
-          oldLines: match[2] ? parseInt(match[2], 10) : 1,
+          oldLines,
           newStart: parseInt(match[3], 10),
-          newLines: match[4] ? parseInt(match[4], 10) : 1,
-          lines: []
+          newLines,
+          lines: [],
+          oldRemaining: oldLines,
+          newRemaining: newLines
         };
       }
-      i++;
       continue;
     }
     
-    // Content lines
-    if (currentHunk && (line.startsWith('+') || line.startsWith('-') || line.startsWith(' ') || line === '')) {
-      currentHunk.lines.push(line);
-      
-      if (currentFile) {
-        if (line.startsWith('+') && !line.startsWith('+++')) {
-          currentFile.additions++;
-        } else if (line.startsWith('-') && !line.startsWith('---')) {
-          currentFile.deletions++;
-        }
-      }
+    // Extended header lines only come before the first hunk
+    if (!currentHunk) {
+      parseExtendedHeader(line, currentFile);
     }
-    
-    i++;
   }
   
   // Don't forget the last file and hunk
-  if (currentFile && currentHunk) {
-    currentFile.hunks.push(convertHunk(currentHunk, currentFile.filename));
+  finishFile();
+  
+  return { files };
+}
+
+/**
+ * Apply one git extended header line (mode, rename, copy, binary, ---/+++) to `file`
+ */
+function parseExtendedHeader(line: string, file: DiffFile): void {
+  const [, key, value] = line.match(/^(old mode|new mode|new file mode|deleted file mode|rename from|rename to|copy from|copy to|similarity index|---|\+\+\+) (.*)$/) ?? [];
+  
+  switch (key) {
+    case 'old mode':
+      file.oldMode = value;
+      break;
+    case 'new mode':
+      file.newMode = value;
+      break;
+    case 'new file mode':
+      file.changeKind = 'added';
+      file.newMode = value;
+      break;
+    case 'deleted file mode':
+      file.changeKind = 'deleted';
+      file.oldMode = value;
+      break;
+    case 'rename from':
+    case 'copy from':
+      file.changeKind = key === 'rename from' ? 'renamed' : 'copied';
+      file.oldFilename = unquotePath(value);
+      break;
+    case 'rename to':
+    case 'copy to':
+      file.filename = unquotePath(value);
+      break;
+    case 'similarity index':
+      file.similarity = parseInt(value, 10);
+      break;
+    case '---':
+      if (value === '/dev/null') file.changeKind = 'added';
+      break;
+    case '+++':
+      if (value === '/dev/null') {
+        file.changeKind = 'deleted';
+      } else {
+        file.filename = stripPrefix(unquotePath(value.replace(/\t.*$/, '')), 'b/');
+      }
+      break;
+    default:
+      if (line.startsWith('Binary files ') || line === 'GIT binary patch') {
+        file.binary = true;
+      }
+  }
+}
+
+/**
+ * Split the paths of a `diff --git` header. Paths with special characters are quoted;
+ * unquoted paths may contain spaces, which is only unambiguous when both sides match.
+ */
+function parseGitHeaderPaths(text: string): { oldPath: string; newPath: string } | null {
+  if (text.startsWith('"')) {
+    const quotedEnd = findQuoteEnd(text);
+    const oldPath = unquotePath(text.slice(0, quotedEnd + 1));
+    const newPath = unquotePath(text.slice(quotedEnd + 2));
+    return { oldPath: stripPrefix(oldPath, 'a/'), newPath: stripPrefix(newPath, 'b/') };
   }
-  if (currentFile) {
-    files.push(currentFile);
+  if (text.endsWith('"')) {
+    const quotedStart = text.lastIndexOf(' "');
+    return {
+      oldPath: stripPrefix(text.slice(0, quotedStart), 'a/'),
+      newPath: stripPrefix(unquotePath(text.slice(quotedStart + 1)), 'b/')
+    };
   }
   
-  return { files };
+  const half = (text.length - 1) / 2;
+  if (Number.isInteger(half) && text[half] === ' ') {
+    const oldPath = stripPrefix(text.slice(0, half), 'a/');
+    const newPath = stripPrefix(text.slice(half + 1), 'b/');
+    if (oldPath === newPath) {
+      return { oldPath, newPath };
+    }
+  }
+  
+  // Renamed file: the rename from/to lines that follow carry the exact paths
+  const match = text.match(/^a\/(.+?) b\/(.+)$/);
+  return match ? { oldPath: match[1], newPath: match[2] } : null;
+}
+
+function findQuoteEnd(text: string): number {
+  for (let i = 1; i < text.length; i++) {
+    if (text[i] === '\\') i++;
+    else if (text[i] === '"') return i;
+  }
+  return text.length - 1;
+}
+
+/**
+ * Decode a C-style quoted path as git writes it: "a/caf\303\251 menu.ts" -> a/café menu.ts
+ */
+function unquotePath(path: string): string {
+  if (!path.startsWith('"') || !path.endsWith('"') || path.length < 2) {
+    return path;
+  }
+  
+  const escapes: Record<string, number> = { a: 7, b: 8, t: 9, n: 10, v: 11, f: 12, r: 13, '"': 34, '\\': 92 };
+  const bytes: number[] = [];
+  const body = path.slice(1, -1);
+  
+  for (let i = 0; i < body.length; i++) {
+    if (body[i] !== '\\') {
+      bytes.push(...Buffer.from(body[i], 'utf-8'));
+      continue;
+    }
+    const octal = body.slice(i + 1, i + 4);
+    if (/^[0-7]{3}$/.test(octal)) {
+      bytes.push(parseInt(octal, 8));
+      i += 3;
+    } else {
+      const next = body[++i];
+      bytes.push(escapes[next] ?? next.charCodeAt(0));
+    }
+  }
+  
+  return Buffer.from(bytes).toString('utf-8');
+}
+
+function stripPrefix(path: string, prefix: string): string {
+  return path.startsWith(prefix) ? path.slice(prefix.length) : path;
+}
+
+/**
+ * Why a file has nothing for the AI to review, or null if it does
+ */
+export function unreviewableReason(file: DiffFile): string | null {
+  if (file.binary) {
+    return file.changeKind === 'modified' ? 'binary file' : `binary file (${file.changeKind})`;
+  }
+  if (file.hunks.length > 0) {
+    return null;
+  }
+  if (file.changeKind === 'renamed' || file.changeKind === 'copied') {
+    return `${file.changeKind} from ${file.oldFilename} without changes`;
+  }
+  if (file.oldMode && file.newMode) {
+    return `mode changed from ${file.oldMode} to ${file.newMode}`;
+  }
+  return file.changeKind === 'modified' ? 'no content changes' : `empty file (${file.changeKind})`;
 }
 
 /**
  * Convert raw hunk data to our DiffHunk format
  */
 function convertHunk(raw: RawHunk, filename: string): DiffHunk {
-  const additions: string[] = [];
-  const deletions: string[] = [];
-  const contentLines: string[] = [];
+  const lines: DiffLine[] = [];
+  let oldLine = raw.oldStart;
+  let newLine = raw.newStart;
   
+  // Body lines only: "+++x" here is an added "++x", not a file header
   for (const line of raw.lines) {
-    if (line.startsWith('+') && !line.startsWith('+++')) {
-      additions.push(line.substring(1));
-      contentLines.push(line);
-    } else if (line.startsWith('-') && !line.startsWith('---')) {
-      deletions.push(line.substring(1));
-      contentLines.push(line);
-    } else if (line.startsWith(' ') || line === '') {
-      contentLines.push(line);
+    const text = line.substring(1);
+    if (line.startsWith('+')) {
+      lines.push({ kind: 'add', newLine: newLine++, text });
+    } else if (line.startsWith('-')) {
+      lines.push({ kind: 'remove', oldLine: oldLine++, text });
+    } else {
+      lines.push({ kind: 'context', oldLine: oldLine++, newLine: newLine++, text });
     }
   }
   
@@ -134,13 +289,28 @@ function convertHunk(raw: RawHunk, filename: string): DiffHunk {
     fileDiffHash,
     startLine: raw.newStart,
     endLine: raw.newStart + raw.newLines - 1,
-    content: contentLines.join('\n'),
-    additions,
-    deletions,
+    ...deriveHunkText(lines),
     context: '' // Will be filled later if we have file access
   };
 }
 
+/**
+ * The diff text and added/removed arrays of a hunk, derived from its line list
+ */
+export function deriveHunkText(lines: DiffLine[]): Pick<DiffHunk, 'lines' | 'content' | 'additions' | 'addedLines' | 'deletions'> {
+  const added = lines.filter(line => line.kind === 'add');
+  
+  return {
+    lines,
+    content: lines.map(line => `${DIFF_MARKERS[line.kind]}${line.text}`).join('\n'),
+    additions: added.map(line => line.text),
+    addedLines: added.map(line => line.newLine as number),
+    deletions: lines.filter(line => line.kind === 'remove').map(line => line.text)
+  };
+}
+
+export const DIFF_MARKERS: Record<DiffLineKind, string> = { add: '+', remove: '-', context: ' ' };
+
 /**
  * Get context around a hunk (surrounding code)
  */
@@ -164,6 +334,13 @@ export function isTypeScriptFile(filename: string): boolean {
   return /\.(tsx?|jsx?)$/.test(filename);
 }
 
+/**
+ * Check if a file is Python, where blocks are marked by indentation rather than braces
+ */
+export function isPythonFile(filename: string): boolean {
+  return /\.(py|pyw|pyi)$/.test(filename);
+}
+
 /**
  * Check if a file is a test file
  */
@@ -178,22 +355,35 @@ export function isTestFile(filename: string): boolean {
  * This is a quick heuristic, not a definitive check
  */
 export function quickAiCheck(content: string): 'high' | 'medium' | 'low' {
+  const { score } = quickAiSignals(content);
+  
+  if (score >= 4) return 'high';
+  if (score >= 2) return 'medium';
+  return 'low';
+}
+
+/**
+ * The individual heuristics behind quickAiCheck, with a description of each that fired
+ */
+export function quickAiSignals(content: string): { score: number; signals: string[] } {
   let score = 0;
+  const signals: string[] = [];
   
   // Check for AI-typical patterns
-  const patterns = [
-    /\/\*\*[\s\S]*?\*\//g,                    // JSDoc blocks
-    /\/\/\s+[A-Z][a-z]+.*$/gm,                // Sentence-case comments
-    /try\s*\{[\s\S]*?\}\s*catch\s*\([^)]*\)\s*\{[\s\S]*?console\.(log|error)/g, // Generic catch
-    /function\s+\w{20,}/g,                     // Very long function names
-    /const\s+\w{20,}/g,                        // Very long variable names
-    /import\s+[\s\S]*?from\s+['"][^'"]+['"];?\s*\n/g // Many import lines
+  const patterns: Array<[RegExp, string]> = [
+    [/\/\*\*[\s\S]*?\*\//g, 'JSDoc blocks'],
+    [/\/\/\s+[A-Z][a-z]+.*$/gm, 'sentence-case comments'],
+    [/try\s*\{[\s\S]*?\}\s*catch\s*\([^)]*\)\s*\{[\s\S]*?console\.(log|error)/g, 'generic catch blocks'],
+    [/function\s+\w{20,}/g, 'very long function names'],
+    [/const\s+\w{20,}/g, 'very long variable names'],
+    [/import\s+[\s\S]*?from\s+['"][^'"]+['"];?\s*\n/g, 'many import lines']
   ];
   
-  for (const pattern of patterns) {
+  for (const [pattern, description] of patterns) {
     const matches = content.match(pattern);
     if (matches && matches.length > 2) {
       score++;
+      signals.push(`${matches.length} ${description}`);
     }
   }
   
@@ -206,10 +396,10 @@ export function quickAiCheck(content: string): 'high' | 'medium' | 'low' {
   ).length;
   
   const commentRatio = commentLines / lines.length;
-  if (commentRatio > 0.3) score += 2;
-  else if (commentRatio > 0.2) score += 1;
+  if (commentRatio > 0.2) {
+    score += commentRatio > 0.3 ? 2 : 1;
+    signals.push(`${Math.round(commentRatio * 100)}% comment lines`);
+  }
   
-  if (score >= 4) return 'high';
-  if (score >= 2) return 'medium';
-  return 'low';
+  return { score, signals };
 }
@@ -0,0 +1,104 @@
+/**
+ * Patch series parser - splits `git format-patch` output or a mailing-list mbox into commits
+ */
+
+import { CommitInfo, ParsedDiff } from '../types.js';
+import { parseDiff } from './diff.js';
+
+// "From <hash> Mon Sep 17 00:00:00 2001" from format-patch, "From <sender> <date>" in other mboxes;
+// the asctime date keeps a commit message line like "From now on ..." from matching
+const SEPARATOR = /^From (\S+) +[A-Z][a-z]{2} [A-Z][a-z]{2} +\d{1,2} \d{2}:\d{2}:\d{2} /;
+const HEADER = /^[\w-]+: /;
+
+/**
+ * True when the input is a patch series rather than a plain diff
+ */
+export function isPatchSeries(text: string): boolean {
+  const [first = '', second = ''] = text.split('\n', 2);
+  return SEPARATOR.test(first) && HEADER.test(second);
+}
+
+/**
+ * Parse each message of a patch series; every file carries the commit it came from
+ */
+export function parsePatchSeries(text: string): ParsedDiff {
+  return {
+    files: splitMessages(text).flatMap(lines => {
+      const { commit, diffStart } = parseMessage(lines);
+      return parseDiff(lines.slice(diffStart).join('\n')).files.map(file => ({ ...file, commit }));
+    })
+  };
+}
+
+/**
+ * A "From " line only starts a new message when headers follow, so a commit
+ * message line beginning with "From " is left alone
+ */
+function splitMessages(text: string): string[][] {
+  const lines = text.split('\n');
+  const messages: string[][] = [];
+
+  lines.forEach((line, i) => {
+    if (SEPARATOR.test(line) && HEADER.test(lines[i + 1] ?? '') && (i === 0 || lines[i - 1] === '')) {
+      messages.push([line]);
+    } else if (messages.length > 0) {
+      messages[messages.length - 1].push(line);
+    }
+  });
+
+  return messages;
+}
+
+function parseMessage(lines: string[]): { commit: CommitInfo; diffStart: number } {
+  const headers = new Map<string, string>();
+  let i = 1;
+
+  // Headers end at the first blank line; indented lines continue the previous header
+  let name = '';
+  for (; i < lines.length && lines[i] !== ''; i++) {
+    if (/^\s/.test(lines[i]) && name) {
+      headers.set(name, `${headers.get(name)} ${lines[i].trim()}`);
+    } else {
+      const match = lines[i].match(/^([\w-]+):\s*(.*)$/);
+      if (!match) continue;
+      name = match[1].toLowerCase();
+      headers.set(name, match[2]);
+    }
+  }
+
+  // The commit message runs until the "---" before the diffstat, or the diff itself
+  const body: string[] = [];
+  for (i++; i < lines.length && lines[i] !== '---' && !lines[i].startsWith('diff --git '); i++) {
+    body.push(lines[i]);
+  }
+  let diffStart = i;
+  while (diffStart < lines.length && !lines[diffStart].startsWith('diff --git ')) {
+    diffStart++;
+  }
+
+  const hash = lines[0].match(SEPARATOR)?.[1];
+  return {
+    commit: {
+      hash: hash && /^[0-9a-f]{7,40}$/.test(hash) ? hash : undefined,
+      subject: decodeHeader(headers.get('subject') ?? '').replace(/^\[[^\]]*\]\s*/, ''),
+      author: decodeHeader(headers.get('from') ?? ''),
+      date: headers.get('date'),
+      message: body.join('\n').trim()
+    },
+    diffStart
+  };
+}
+
+/**
+ * Decode RFC 2047 encoded words (=?UTF-8?q?caf=C3=A9?=) as git writes them for non-ASCII names and subjects
+ */
+function decodeHeader(value: string): string {
+  return value
+    .replace(/(\?=)\s+(=\?)/g, '$1$2')
+    .replace(/=\?([^?]+)\?([bq])\?([^?]*)\?=/gi, (_, charset: string, encoding: string, text: string) => {
+      const bytes = encoding.toLowerCase() === 'b'
+        ? Buffer.from(text, 'base64')
+        : Buffer.from(text.replace(/_/g, ' ').replace(/=([0-9a-f]{2})/gi, (__, hex: string) => String.fromCharCode(parseInt(hex, 16))), 'latin1');
+      return bytes.toString(/^utf-?8$/i.test(charset) ? 'utf-8' : 'latin1');
+    });
+}
@@ -0,0 +1,210 @@
+/**
+ * TypeScript/JavaScript syntax tree metrics using the bundled compiler API
+ */
+
+import ts from 'typescript';
+import { ComplexityMetrics } from '../types.js';
+import { FunctionSpan, NumberedLine } from './code.js';
+
+interface FunctionMetrics {
+  startLine: number;  // new-file line numbers
+  endLine: number;
+  nestingDepth: number;
+  cyclomaticComplexity: number;
+  parameterCount: number;
+}
+
+/**
+ * Parse a hunk's new-side lines and measure the functions overlapping the changed lines.
+ * Top-level changes outside any function are measured as one block.
+ */
+export function measureTypeScriptLines(
+  filename: string,
+  lines: NumberedLine[],
+  changedLines: Set<number>
+): ComplexityMetrics {
+  const source = parseLines(filename, lines);
+
+  // Source positions are relative to the joined snippet; map back to file lines
+  const toFileLine = (pos: number): number => {
+    const index = source.getLineAndCharacterOfPosition(pos).line;
+    return lines[Math.min(index, lines.length - 1)]?.line ?? 0;
+  };
+
+  const functions: FunctionMetrics[] = [];
+  const visit = (node: ts.Node): void => {
+    if (isFunctionLike(node) && node.body) {
+      functions.push({
+        startLine: toFileLine(node.getStart(source)),
+        endLine: toFileLine(node.getEnd()),
+        nestingDepth: nestingDepth(node.body, 0),
+        cyclomaticComplexity: 1 + countDecisions(node.body),
+        parameterCount: node.parameters.length
+      });
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(source);
+
+  const touched = functions.filter(fn =>
+    [...changedLines].some(line => line >= fn.startLine && line <= fn.endLine)
+  );
+  if (touched.length === 0) {
+    return {
+      nestingDepth: nestingDepth(source, 0),
+      cyclomaticComplexity: 1 + countDecisions(source),
+      parameterCount: 0,
+      lineCount: lines.filter(({ text }) => text.trim()).length,
+      dependencyCount: countDependencies(source)
+    };
+  }
+
+  return {
+    nestingDepth: Math.max(...touched.map(fn => fn.nestingDepth)),
+    cyclomaticComplexity: Math.max(...touched.map(fn => fn.cyclomaticComplexity)),
+    parameterCount: Math.max(...touched.map(fn => fn.parameterCount)),
+    lineCount: Math.max(...touched.map(fn =>
+      lines.filter(({ line, text }) => line >= fn.startLine && line <= fn.endLine && text.trim()).length
+    )),
+    dependencyCount: countDependencies(source)
+  };
+}
+
+/**
+ * Functions with a body in a hunk's lines, taken from the syntax tree so braces in
+ * strings, templates and regex literals don't move their boundaries
+ */
+export function findTypeScriptFunctionSpans(filename: string, lines: NumberedLine[]): FunctionSpan[] {
+  const source = parseLines(filename, lines);
+  const toIndex = (pos: number): number =>
+    Math.min(source.getLineAndCharacterOfPosition(pos).line, lines.length - 1);
+
+  const spans: FunctionSpan[] = [];
+  const visit = (node: ts.Node): void => {
+    if (isFunctionLike(node) && node.body) {
+      spans.push({ name: functionName(node), startIndex: toIndex(node.getStart(source)), endIndex: toIndex(node.getEnd()) });
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(source);
+
+  return spans;
+}
+
+/**
+ * Import declarations, require() calls and dynamic imports in a parsed snippet
+ */
+export function countDependencies(source: ts.SourceFile): number {
+  let count = 0;
+  const visit = (node: ts.Node): void => {
+    if (ts.isImportDeclaration(node) || ts.isImportEqualsDeclaration(node)) {
+      count++;
+    } else if (ts.isCallExpression(node) &&
+      (node.expression.kind === ts.SyntaxKind.ImportKeyword ||
+        (ts.isIdentifier(node.expression) && node.expression.text === 'require'))) {
+      count++;
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(source);
+  return count;
+}
+
+function parseLines(filename: string, lines: NumberedLine[]): ts.SourceFile {
+  return ts.createSourceFile(
+    filename,
+    lines.map(({ text }) => text).join('\n'),
+    ts.ScriptTarget.Latest,
+    true,
+    scriptKindFor(filename)
+  );
+}
+
+function scriptKindFor(filename: string): ts.ScriptKind {
+  if (filename.endsWith('.tsx')) return ts.ScriptKind.TSX;
+  if (filename.endsWith('.jsx')) return ts.ScriptKind.JSX;
+  if (/\.[cm]?js$/.test(filename)) return ts.ScriptKind.JS;
+  return ts.ScriptKind.TS;
+}
+
+function isFunctionLike(node: ts.Node): node is ts.FunctionLikeDeclaration {
+  return ts.isFunctionDeclaration(node) ||
+    ts.isFunctionExpression(node) ||
+    ts.isArrowFunction(node) ||
+    ts.isMethodDeclaration(node) ||
+    ts.isConstructorDeclaration(node) ||
+    ts.isGetAccessorDeclaration(node) ||
+    ts.isSetAccessorDeclaration(node);
+}
+
+/**
+ * Declared name, or the variable or property an anonymous function is assigned to
+ */
+function functionName(node: ts.FunctionLikeDeclaration): string {
+  if (ts.isConstructorDeclaration(node)) {
+    return 'constructor';
+  }
+  const name = node.name ?? (
+    ts.isVariableDeclaration(node.parent) || ts.isPropertyAssignment(node.parent) || ts.isPropertyDeclaration(node.parent)
+      ? node.parent.name
+      : undefined
+  );
+  return name && (ts.isIdentifier(name) || ts.isPrivateIdentifier(name) || ts.isStringLiteral(name)) ? name.text : 'anonymous';
+}
+
+function isNestingNode(node: ts.Node): boolean {
+  // `else if` continues the parent chain rather than nesting deeper
+  if (ts.isIfStatement(node)) {
+    return !(ts.isIfStatement(node.parent) && node.parent.elseStatement === node);
+  }
+  return ts.isForStatement(node) ||
+    ts.isForInStatement(node) ||
+    ts.isForOfStatement(node) ||
+    ts.isWhileStatement(node) ||
+    ts.isDoStatement(node) ||
+    ts.isSwitchStatement(node) ||
+    ts.isTryStatement(node);
+}
+
+/**
+ * Deepest control-flow nesting within a function body (nested functions are measured on their own)
+ */
+function nestingDepth(node: ts.Node, depth: number): number {
+  let max = depth;
+  ts.forEachChild(node, child => {
+    if (isFunctionLike(child)) return;
+    const childDepth = isNestingNode(child) ? depth + 1 : depth;
+    max = Math.max(max, nestingDepth(child, childDepth));
+  });
+  return max;
+}
+
+/**
+ * Decision points for McCabe complexity, excluding nested functions
+ */
+function countDecisions(node: ts.Node): number {
+  let count = 0;
+  ts.forEachChild(node, child => {
+    if (isFunctionLike(child)) return;
+
+    if (ts.isIfStatement(child) ||
+      ts.isConditionalExpression(child) ||
+      ts.isForStatement(child) ||
+      ts.isForInStatement(child) ||
+      ts.isForOfStatement(child) ||
+      ts.isWhileStatement(child) ||
+      ts.isDoStatement(child) ||
+      ts.isCaseClause(child) ||
+      ts.isCatchClause(child)) {
+      count++;
+    } else if (ts.isBinaryExpression(child) &&
+      (child.operatorToken.kind === ts.SyntaxKind.AmpersandAmpersandToken ||
+        child.operatorToken.kind === ts.SyntaxKind.BarBarToken ||
+        child.operatorToken.kind === ts.SyntaxKind.QuestionQuestionToken)) {
+      count++;
+    }
+
+    count += countDecisions(child);
+  });
+  return count;
+}
@@ -0,0 +1,80 @@
+/**
+ * Path-based filtering and per-path config overrides
+ */
+
+import { Minimatch } from 'minimatch';
+import { mergeConfig } from './config.js';
+import { isTestFile } from './parsers/diff.js';
+import { Config } from './types.js';
+
+// Files that are never worth an AI review: lockfiles, generated output, vendored code, binaries
+export const DEFAULT_EXCLUDES = [
+  // Lockfiles
+  'package-lock.json', 'npm-shrinkwrap.json', 'yarn.lock', 'pnpm-lock.yaml', 'bun.lockb',
+  'Cargo.lock', 'Gemfile.lock', 'poetry.lock', 'Pipfile.lock', 'composer.lock', 'go.sum', 'flake.lock',
+  // Snapshots and generated code
+  '**/__snapshots__/**', '*.snap', '*.min.js', '*.min.css', '*.map', '*.d.ts',
+  '*.generated.*', '*.pb.go', '*_pb2.py', '**/generated/**', '**/__generated__/**',
+  '**/dist/**', '**/build/**', '**/coverage/**',
+  // Vendored dependencies
+  '**/node_modules/**', '**/vendor/**', '**/third_party/**',
+  // Binary assets
+  '*.{png,jpg,jpeg,gif,bmp,ico,webp,svg,pdf,zip,gz,tgz,tar,jar,woff,woff2,ttf,otf,eot,mp3,mp4,mov,wasm,exe,dll,so,dylib}'
+];
+
+const compiled = new Map<string, Minimatch>();
+
+/**
+ * Check a path against glob patterns. Patterns without a slash match the basename anywhere.
+ * Matching is case-sensitive, like git, unless `nocase` is set.
+ */
+export function matchesAny(filename: string, patterns: string[], nocase = false): boolean {
+  return patterns.some(pattern => compile(pattern, nocase).match(filename));
+}
+
+function compile(pattern: string, nocase: boolean): Minimatch {
+  const key = `${nocase ? 'i' : 's'}:${pattern}`;
+  let matcher = compiled.get(key);
+  if (!matcher) {
+    matcher = new Minimatch(pattern.includes('/') ? pattern : `**/${pattern}`, { dot: true, nocase });
+    compiled.set(key, matcher);
+  }
+  return matcher;
+}
+
+/**
+ * Why a file should not be reviewed, or null if it should
+ */
+export function exclusionReason(filename: string, config: Config): string | null {
+  if (config.include.length > 0 && !matchesAny(filename, config.include)) {
+    return 'not matched by include';
+  }
+  if (matchesAny(filename, config.exclude)) {
+    return 'excluded by config';
+  }
+  // File extensions in the wild come in any case (Logo.PNG, SETUP.EXE)
+  if (config.useDefaultExcludes && matchesAny(filename, DEFAULT_EXCLUDES, true)) {
+    return 'generated, lock, vendored or binary file';
+  }
+  return null;
+}
+
+/**
+ * Config for a single file, with every matching override applied in order
+ */
+export function resolvePathConfig(filename: string, config: Config): Config {
+  let resolved = config;
+
+  for (const override of config.overrides) {
+    const matchesGlob = override.files !== undefined && matchesAny(filename, override.files);
+    const matchesTest = override.testFiles === true && isTestFile(filename);
+    if (!matchesGlob && !matchesTest) continue;
+
+    resolved = mergeConfig(resolved, {
+      complexityThresholds: { ...resolved.complexityThresholds, ...override.complexityThresholds },
+      enabledAnalyzers: { ...resolved.enabledAnalyzers, ...override.enabledAnalyzers }
+    });
+  }
+
+  return resolved;
+}
@@ -0,0 +1,32 @@
+/**
+ * Bounded-concurrency worker pool
+ */
+
+/**
+ * Run `worker` over `items` with at most `limit` in flight.
+ * Results keep the order of `items`; `onProgress` fires after each completion.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>,
+  onProgress?: (completed: number, total: number) => void
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  let completed = 0;
+
+  const runWorker = async (): Promise<void> => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await worker(items[index], index);
+      completed++;
+      onProgress?.(completed, items.length);
+    }
+  };
+
+  const workers = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, runWorker);
+  await Promise.all(workers);
+
+  return results;
+}
@@ -7,18 +7,57 @@ export interface DiffHunk {
   fileDiffHash?: string;  // GitHub's diff hash for linking
   startLine: number;
   endLine: number;
+  lines: DiffLine[];      // every body line in diff order; the fields below are derived from it
   content: string;
   additions: string[];
+  addedLines: number[];   // new-file line number of each entry in `additions`
   deletions: string[];
   context: string;  // surrounding code
+  contextStartLine?: number;  // new-file line number of the first line of `context`
+  trivial?: TrivialChange;  // moved or reformatted code; skips AI review
+}
+
+// Added code that is not new: it was moved from elsewhere in the diff, or only its whitespace changed
+export interface TrivialChange {
+  kind: 'moved' | 'formatting';
+  movedFrom?: { filename: string; line: number };  // old-file position of the first moved line
+}
+
+export type DiffLineKind = 'add' | 'remove' | 'context';
+
+export interface DiffLine {
+  kind: DiffLineKind;
+  oldLine?: number;   // old-file line number; unset for added lines
+  newLine?: number;   // new-file line number; unset for removed lines
+  text: string;       // without the +/-/space marker
 }
 
 export interface ParsedDiff {
   files: DiffFile[];
 }
 
+// One patch of a format-patch series or mbox
+export interface CommitInfo {
+  hash?: string;      // from the "From <hash>" separator line
+  subject: string;    // without the [PATCH n/m] prefix
+  author: string;
+  date?: string;
+  message: string;    // body after the subject, may be empty
+}
+
+// What happened to the file as a whole, from git's extended header lines
+export type FileChangeKind = 'modified' | 'added' | 'deleted' | 'renamed' | 'copied';
+
 export interface DiffFile {
-  filename: string;
+  filename: string;       // new path; the old path for deleted files
+  oldFilename?: string;   // source path of a rename or copy
+  changeKind: FileChangeKind;
+  similarity?: number;    // percent, for renames and copies
+  binary: boolean;
+  oldMode?: string;       // e.g. 100644; set when the mode changed or the file was deleted
+  newMode?: string;       // set when the mode changed or the file was added
+  missingNewline?: { old: boolean; new: boolean };  // "\ No newline at end of file" markers
+  commit?: CommitInfo;    // set when the input was a patch series
   hunks: DiffHunk[];
   additions: number;
   deletions: number;
@@ -50,10 +89,25 @@ export type PatternType =
 
 export interface PatternAnalysis {
   patternsFound: PatternMatch[];
-  overallAiLikelihood: 'high' | 'medium' | 'low';
+  overallAiLikelihood: AiLikelihoodLevel;
   keyQuestion?: string;
 }
 
+// AI-generated code likelihood, with the signals behind it
+export type AiLikelihoodLevel = 'high' | 'medium' | 'low';
+
+export interface AiLikelihood {
+  level: AiLikelihoodLevel;
+  score: number;      // heuristic points, higher = more AI-like
+  signals: string[];  // what contributed to the score
+}
+
+// Local estimate of how much a hunk needs review; picks hunks under --max-hunks
+export interface HunkRisk {
+  score: number;      // points, higher = review first
+  reasons: string[];  // what contributed to the score
+}
+
 // Solution 4: Complexity Highlighter
 export interface ComplexityMetrics {
   nestingDepth: number;
@@ -82,35 +136,85 @@ export interface AIReview {
   summary: string;      // 1 sentence: what is this PR
   critical: Array<{
     type: 'security' | 'crash' | 'data-loss' | 'performance';
-    line: number;
+    line: number;          // an added line of the hunk, or for a hunk with none the line its removal sits at (at least 1)
+    reportedLine?: number; // set when the model's line wasn't in the hunk and `line` was clamped
+    fileLevel?: boolean;   // the hunk only removes code, so `line` points at no code of its own
     issue: string;
     friendlySuggestion: string;
   }>;
   language: string;
 }
 
+// Local secret scan
+export type SecretKind =
+  | 'private-key'
+  | 'aws-access-key'
+  | 'aws-secret-key'
+  | 'jwt'
+  | 'env-assignment'
+  | 'high-entropy';
+
+export interface SecretFinding {
+  kind: SecretKind;
+  line: number;         // new-file line
+  issue: string;        // never contains the secret itself
+  suggestion: string;
+}
+
 // Combined analysis result for a hunk
 export interface HunkAnalysis {
   hunk: DiffHunk;
+  status: HunkStatus;
+  errors?: string[];    // API or invalid-response failures for this hunk
+  cached?: boolean;     // AI results came from the on-disk cache
+  skippedRanges?: LineRange[];  // new-file lines of an oversized hunk that were not sent to the AI
+  usage?: TokenUsage;   // tokens spent on this hunk (zero for cache hits)
+  risk?: HunkRisk;
   aiReview?: AIReview;
+  secrets?: SecretFinding[];  // credentials found locally; redacted before anything was sent
   summary?: SummaryAnalysis;
   patterns?: PatternAnalysis;
   complexity?: ComplexityAnalysis;
+  aiLikelihood?: AiLikelihood;
   processingTime: number;
 }
 
+export interface LineRange {
+  startLine: number;
+  endLine: number;
+}
+
+// 'not-analyzed' = the AI review call failed after retries;
+// 'analysis-failed' = the model answered, but not with a valid review even after a repair attempt.
+// 'over-budget' = an AI call was not sent because it could have taken the run past --budget.
+// 'over-max-hunks' = a lower-risk hunk left out of the AI calls by --max-hunks.
+// Local analyzers still ran in all four cases.
+export type HunkStatus = 'analyzed' | 'not-analyzed' | 'analysis-failed' | 'over-budget' | 'over-max-hunks';
+
 // Full review result
 export interface ReviewResult {
   files: FileAnalysis[];
   totalHunks: number;
   totalProcessingTime: number;
-  aiCodeLikelihood: 'high' | 'medium' | 'low';
+  aiCodeLikelihood: AiLikelihoodLevel;
+  aiLikelihood: AiLikelihood;
+  skippedFiles: SkippedFile[];
+  usage: TokenUsage;    // all API calls in this run; cache hits cost nothing
+}
+
+export interface SkippedFile {
+  filename: string;
+  reason: string;
 }
 
 export interface FileAnalysis {
   filename: string;
+  oldFilename?: string;
+  changeKind: FileChangeKind;
+  commit?: CommitInfo;
   hunks: HunkAnalysis[];
   overallComplexity: number;
+  aiLikelihood?: AiLikelihood;
 }
 
 // CLI Options
@@ -125,18 +229,70 @@ export interface ReviewOptions {
   contextLines: number;
 }
 
-export type OutputFormat = 'markdown' | 'json' | 'text' | 'github' | 'friendly';
+export type OutputFormat = 'markdown' | 'json' | 'text' | 'github' | 'friendly' | 'sarif';
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  costUsd?: number;     // undefined when the model's price is unknown
+}
+
+export interface ModelPrice {
+  input: number;    // USD per million input tokens
+  output: number;   // USD per million output tokens
+}
+
+// Analysis stops starting new hunks once either limit is used up
+export interface Budget {
+  tokens?: number;  // input + output tokens
+  usd?: number;
+}
+
+export type ProviderName = 'anthropic' | 'openai' | 'fake';
 
 // Config file
 export interface Config {
+  provider: ProviderName;
+  baseUrl?: string;             // OpenAI-compatible endpoint (e.g. a local Ollama or llama.cpp server)
   anthropicApiKey?: string;
+  openaiApiKey?: string;
+  fakeRules?: string;           // rules file for the fake provider, relative to the config file
   model: string;
+  pricePerMillionTokens?: ModelPrice;  // overrides the built-in price table
+  budget?: Budget;
+  concurrency: number;          // hunks analyzed in parallel
+  requestTimeout: number;       // seconds per API request
+  maxRetries: number;           // retries for rate limits, overloads and network errors
+  contextLines: number;         // lines of surrounding code sent with each hunk (0 = none)
+  maxChunkTokens: number;       // larger hunks are split into chunks of about this size
+  maxChunksPerHunk: number;     // chunks past this are skipped and listed in the output
+  cache: boolean;
+  cacheDir: string;
+  cacheMaxAgeDays: number;
+  cacheMaxSizeMb: number;
   complexityThresholds: ComplexityThresholds;
-  enabledAnalyzers: {
-    summary: boolean;
-    patterns: boolean;
-    complexity: boolean;
-  };
+  enabledAnalyzers: EnabledAnalyzers;
+  include: string[];            // if non-empty, only matching paths are reviewed
+  exclude: string[];            // paths never reviewed
+  useDefaultExcludes: boolean;  // skip lockfiles, generated, vendored and binary files
+  overrides: PathOverride[];
+  secretsAllowlist: string[];   // regexes for values the secret scanner should ignore
+}
+
+export interface EnabledAnalyzers {
+  aiReview: boolean;
+  secrets: boolean;             // scan for credentials and redact them before sending
+  summary: boolean;
+  patterns: boolean;
+  complexity: boolean;
+}
+
+// Settings applied to files matching `files` globs (or test files), in order
+export interface PathOverride {
+  files?: string[];
+  testFiles?: boolean;  // match anything isTestFile() recognizes
+  complexityThresholds?: Partial<ComplexityThresholds>;
+  enabledAnalyzers?: Partial<EnabledAnalyzers>;
 }
 
 export interface ComplexityThresholds {
@@ -148,7 +304,18 @@ export interface ComplexityThresholds {
 }
 
 export const DEFAULT_CONFIG: Config = {
+  provider: 'anthropic',
   model: 'claude-sonnet-4-20250514',
+  concurrency: 4,
+  requestTimeout: 60,
+  maxRetries: 3,
+  contextLines: 20,
+  maxChunkTokens: 1500,
+  maxChunksPerHunk: 4,
+  cache: true,
+  cacheDir: '.reviewpal/cache',
+  cacheMaxAgeDays: 30,
+  cacheMaxSizeMb: 50,
   complexityThresholds: {
     nestingDepth: 3,
     cyclomaticComplexity: 10,
@@ -157,8 +324,15 @@ export const DEFAULT_CONFIG: Config = {
     dependencyCount: 10
   },
   enabledAnalyzers: {
+    aiReview: true,
+    secrets: true,
     summary: true,
     patterns: true,
     complexity: true
-  }
+  },
+  include: [],
+  exclude: [],
+  useDefaultExcludes: true,
+  overrides: [],
+  secretsAllowlist: []
 };
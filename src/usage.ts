@@ -0,0 +1,134 @@
+/**
+ * Token usage accounting, model prices and review budgets
+ */
+
+import { Budget, ModelPrice, TokenUsage } from './types.js';
+
+// List prices by model ID prefix; the longest matching prefix wins
+export const MODEL_PRICES: Record<string, ModelPrice> = {
+  'claude-opus-4': { input: 15, output: 75 },
+  'claude-sonnet-4': { input: 3, output: 15 },
+  'claude-3-7-sonnet': { input: 3, output: 15 },
+  'claude-3-5-sonnet': { input: 3, output: 15 },
+  'claude-3-5-haiku': { input: 0.8, output: 4 },
+  'claude-3-opus': { input: 15, output: 75 },
+  'claude-3-haiku': { input: 0.25, output: 1.25 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 }
+};
+
+/**
+ * Price for `model`: the configured override, else the table, else undefined
+ */
+export function priceFor(model: string, override?: ModelPrice): ModelPrice | undefined {
+  if (override) {
+    return override;
+  }
+  const prefix = Object.keys(MODEL_PRICES)
+    .filter(candidate => model.startsWith(candidate))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? MODEL_PRICES[prefix] : undefined;
+}
+
+export function emptyUsage(): TokenUsage {
+  return { inputTokens: 0, outputTokens: 0 };
+}
+
+export function addUsage(target: TokenUsage, usage: TokenUsage): void {
+  target.inputTokens += usage.inputTokens;
+  target.outputTokens += usage.outputTokens;
+}
+
+/**
+ * `usage` with costUsd filled in when the price is known
+ */
+export function withCost(usage: TokenUsage, price?: ModelPrice): TokenUsage {
+  if (!price) {
+    return { inputTokens: usage.inputTokens, outputTokens: usage.outputTokens };
+  }
+  const costUsd = (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1_000_000;
+  return { ...usage, costUsd };
+}
+
+/**
+ * Parse a --budget value: a token count ("200000", "200k", "1.5m") or dollars ("$0.50", "0.5usd")
+ */
+export function parseBudget(value: string): Budget {
+  const text = value.trim().toLowerCase();
+
+  const dollars = text.match(/^\$\s*(\d+(?:\.\d+)?)$/) ?? text.match(/^(\d+(?:\.\d+)?)\s*usd$/);
+  if (dollars) {
+    return { usd: Number(dollars[1]) };
+  }
+
+  const tokens = text.match(/^(\d+(?:\.\d+)?)\s*([km]?)$/);
+  if (tokens) {
+    const multiplier = tokens[2] === 'k' ? 1_000 : tokens[2] === 'm' ? 1_000_000 : 1;
+    return { tokens: Math.round(Number(tokens[1]) * multiplier) };
+  }
+
+  throw new Error(`--budget must be a token count (e.g. 200000 or 200k) or dollars (e.g. $0.50), got "${value}"`);
+}
+
+/**
+ * Usage shared by all calls of a run. Each call reserves its worst case before it is
+ * sent, so calls running side by side can't together go past the budget.
+ */
+export interface UsageLedger {
+  readonly used: TokenUsage;    // what finished calls used
+  /** Reserve `estimate` for a call; false, reserving nothing, if it could go over budget */
+  reserve(estimate: TokenUsage): boolean;
+  /** Release a call's reservation and add what it used, if it got an answer */
+  settle(estimate: TokenUsage, usage?: TokenUsage): void;
+}
+
+export function createUsageLedger(budget?: Budget, price?: ModelPrice): UsageLedger {
+  const used = emptyUsage();
+  const reserved = emptyUsage();
+
+  return {
+    used,
+    reserve(estimate) {
+      const worstCase = emptyUsage();
+      [used, reserved, estimate].forEach(usage => addUsage(worstCase, usage));
+      if (budget && exceedsBudget(worstCase, budget, price)) {
+        return false;
+      }
+      addUsage(reserved, estimate);
+      return true;
+    },
+    settle(estimate, usage) {
+      reserved.inputTokens -= estimate.inputTokens;
+      reserved.outputTokens -= estimate.outputTokens;
+      if (usage) {
+        addUsage(used, usage);
+      }
+    }
+  };
+}
+
+function exceedsBudget(usage: TokenUsage, budget: Budget, price?: ModelPrice): boolean {
+  if (budget.tokens !== undefined && usage.inputTokens + usage.outputTokens > budget.tokens) {
+    return true;
+  }
+  const costUsd = withCost(usage, price).costUsd;
+  return budget.usd !== undefined && costUsd !== undefined && costUsd > budget.usd;
+}
+
+/**
+ * True once either limit of `budget` has been used up
+ */
+export function budgetReached(usage: TokenUsage, budget: Budget, price?: ModelPrice): boolean {
+  if (budget.tokens !== undefined && usage.inputTokens + usage.outputTokens >= budget.tokens) {
+    return true;
+  }
+  const costUsd = withCost(usage, price).costUsd;
+  return budget.usd !== undefined && costUsd !== undefined && costUsd >= budget.usd;
+}
+
+export function formatUsage(usage: TokenUsage): string {
+  const tokens = `${usage.inputTokens.toLocaleString('en-US')} in / ${usage.outputTokens.toLocaleString('en-US')} out tokens`;
+  return usage.costUsd !== undefined ? `${tokens} (~$${usage.costUsd.toFixed(4)})` : tokens;
+}
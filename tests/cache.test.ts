@@ -0,0 +1,82 @@
+import { afterEach, beforeEach, describe, expect, test } from '@jest/globals';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { analyzeHunk } from '../src/analyze.js';
+import { setProvider } from '../src/api/provider.js';
+import { cacheKey } from '../src/cache.js';
+import { mergeConfig } from '../src/config.js';
+import { Config, DEFAULT_CONFIG, DiffHunk } from '../src/types.js';
+import { diff } from './helpers.js';
+
+// The same change to app.js, `shift` lines further down the file
+function evalHunk(shift: number): DiffHunk {
+  const start = 29 + shift;
+  return diff(
+    'diff --git a/app.js b/app.js',
+    '--- a/app.js',
+    '+++ b/app.js',
+    `@@ -${start},3 +${start},4 @@ function run(input) {`,
+    '   const parsed = parse(input);',
+    '   log(parsed);',
+    '+  const result = eval(parsed.expression);',
+    '   return parsed;'
+  )[0].hunks[0];
+}
+
+describe('cached reviews', () => {
+  let config: Config;
+  let calls: number;
+
+  beforeEach(() => {
+    config = mergeConfig(DEFAULT_CONFIG, {
+      cacheDir: mkdtempSync(join(tmpdir(), 'reviewpal-cache-')),
+      enabledAnalyzers: { ...DEFAULT_CONFIG.enabledAnalyzers, summary: false }
+    });
+    calls = 0;
+    // Reports the eval line as the numbered prompt shows it, like a model would
+    setProvider({
+      name: 'test',
+      async complete({ prompt }) {
+        calls++;
+        const line = Number(prompt.match(/^\s*(\d+) \+ .*eval\(/m)?.[1]);
+        return {
+          text: JSON.stringify({
+            language: 'JavaScript',
+            summary: 'Evaluates an expression from the input.',
+            critical: [{ type: 'security', line, issue: 'eval of user input', friendlySuggestion: 'Parse the expression instead.' }]
+          })
+        };
+      }
+    });
+  });
+
+  afterEach(() => {
+    rmSync(config.cacheDir, { recursive: true, force: true });
+  });
+
+  test('an unchanged hunk is served from the cache', async () => {
+    const first = await analyzeHunk(evalHunk(0), config);
+    const second = await analyzeHunk(evalHunk(0), config);
+
+    expect(calls).toBe(1);
+    expect(second.cached).toBe(true);
+    expect(second.aiReview?.critical[0].line).toBe(first.aiReview?.critical[0].line);
+    expect(first.aiReview?.critical[0].line).toBe(31);
+  });
+
+  test('a hunk moved down by inserted lines is reviewed again at its new lines', async () => {
+    await analyzeHunk(evalHunk(0), config);
+    const shifted = await analyzeHunk(evalHunk(5), config);
+
+    expect(calls).toBe(2);
+    expect(shifted.cached).toBeUndefined();
+    expect(shifted.aiReview?.critical[0]).toMatchObject({ line: 36 });
+    expect(shifted.aiReview?.critical[0].reportedLine).toBeUndefined();
+  });
+});
+
+test('cacheKey depends on the hunk position', () => {
+  expect(cacheKey('review', evalHunk(0), 'model', 1)).toBe(cacheKey('review', evalHunk(0), 'model', 1));
+  expect(cacheKey('review', evalHunk(0), 'model', 1)).not.toBe(cacheKey('review', evalHunk(5), 'model', 1));
+});
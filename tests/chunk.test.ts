@@ -0,0 +1,61 @@
+import { expect, test } from '@jest/globals';
+import { splitHunk } from '../src/parsers/chunk.js';
+import { DiffHunk } from '../src/types.js';
+import { diff } from './helpers.js';
+
+const CONTEXT_LINES = 20;
+
+// New side of a 400-line file; lines 101-300 are added by the hunk
+const FILE = Array.from({ length: 400 }, (_, i) => `const line${i + 1} = ${i + 1};`);
+
+function addedRangeHunk(): DiffHunk {
+  const [file] = diff(
+    'diff --git a/src/big.ts b/src/big.ts',
+    '--- a/src/big.ts',
+    '+++ b/src/big.ts',
+    '@@ -100,0 +101,200 @@',
+    ...FILE.slice(100, 300).map(line => `+${line}`)
+  );
+  const hunk = file.hunks[0];
+  hunk.context = FILE.slice(100 - CONTEXT_LINES, 300 + CONTEXT_LINES).join('\n');
+  hunk.contextStartLine = 101 - CONTEXT_LINES;
+  return hunk;
+}
+
+test('each chunk carries the surrounding code of its own lines', () => {
+  const chunks = splitHunk(addedRangeHunk(), 500);
+
+  expect(chunks.length).toBeGreaterThan(2);
+  for (const chunk of chunks) {
+    const first = chunk.startLine - CONTEXT_LINES;
+    expect(chunk.contextStartLine).toBe(first);
+    expect(chunk.context).toBe(FILE.slice(first - 1, chunk.endLine + CONTEXT_LINES).join('\n'));
+  }
+  expect(chunks[1].context).not.toContain('const line81 = 81;');
+});
+
+test('chunk context stops where the hunk context does', () => {
+  const hunk = addedRangeHunk();
+  const chunks = splitHunk(hunk, 500);
+
+  expect(chunks[0].contextStartLine).toBe(hunk.contextStartLine);
+  expect(chunks[chunks.length - 1].context.split('\n').pop()).toBe('const line320 = 320;');
+});
+
+test('chunks of a hunk without surrounding code get none', () => {
+  const hunk = addedRangeHunk();
+  hunk.context = '';
+  hunk.contextStartLine = undefined;
+
+  for (const chunk of splitHunk(hunk, 500)) {
+    expect(chunk.context).toBe('');
+  }
+});
+
+test('chunk line numbers cover the hunk in order', () => {
+  const chunks = splitHunk(addedRangeHunk(), 500);
+
+  expect(chunks[0].startLine).toBe(101);
+  expect(chunks[chunks.length - 1].endLine).toBe(300);
+  chunks.slice(1).forEach((chunk, i) => expect(chunk.startLine).toBe(chunks[i].endLine + 1));
+});
@@ -0,0 +1,122 @@
+import { describe, expect, test } from '@jest/globals';
+import { analyzeComplexity, measureHunk } from '../src/analyzers/complexity.js';
+import { addedFileHunk } from './helpers.js';
+
+describe('measureHunk from the TypeScript syntax tree', () => {
+  test('measures the function the hunk touches', () => {
+    const hunk = addedFileHunk('src/retry.ts', [
+      "import { a } from './a';",
+      "import { b } from './b';",
+      'export function retry(task: () => void, times: number, delay: number) {',
+      '  for (let i = 0; i < times; i++) {',
+      '    if (i > 0 && delay) {',
+      '      wait(delay);',
+      '    }',
+      '  }',
+      '}'
+    ].join('\n'));
+
+    expect(measureHunk(hunk)).toEqual({
+      nestingDepth: 2,
+      cyclomaticComplexity: 4,
+      parameterCount: 3,
+      lineCount: 7,
+      dependencyCount: 2
+    });
+  });
+
+  test('measures top-level code as one block', () => {
+    const hunk = addedFileHunk('src/config.ts', 'export const mode = process.env.MODE ?? "dev";');
+
+    expect(measureHunk(hunk)).toMatchObject({ cyclomaticComplexity: 2, parameterCount: 0, lineCount: 1 });
+  });
+});
+
+describe('measureHunk fallback for other languages', () => {
+  test('measures Python by indentation and its own keywords', () => {
+    const hunk = addedFileHunk('app/sync.py', [
+      'from app import db',
+      'import logging',
+      '',
+      'def sync(self, items, *, force=False,',
+      '         timeout: int = 30):',
+      '    """Copy items # not a comment"""',
+      '    for item in items:',
+      '        if item.ok and not force:',
+      '            continue',
+      '        elif item.stale or force:',
+      '            try:',
+      '                db.save(item)',
+      '            except IOError:',
+      '                logging.warning("retry // later")',
+      '    return True'
+    ].join('\n'));
+
+    expect(measureHunk(hunk)).toEqual({
+      nestingDepth: 3,
+      cyclomaticComplexity: 7,
+      parameterCount: 3,
+      lineCount: 12,
+      dependencyCount: 2
+    });
+  });
+
+  test('only counts the Python function the hunk changes', () => {
+    const added = addedFileHunk('app/two.py', [
+      'def first(a):',
+      '    if a:',
+      '        if a > 1:',
+      '            return a',
+      '',
+      'def second(a, b):',
+      '    return a + b'
+    ].join('\n'));
+    // Only `second` is added; `first` is unchanged context
+    const hunk = { ...added, lines: added.lines.map(line => (line.newLine as number) < 6 ? { ...line, kind: 'context' as const } : line) };
+
+    expect(measureHunk(hunk)).toMatchObject({ nestingDepth: 0, cyclomaticComplexity: 1, parameterCount: 2, lineCount: 2 });
+  });
+
+  test('measures brace languages by braces', () => {
+    const hunk = addedFileHunk('src/sum.php', [
+      'function sum($values, $limit) {',
+      '  $total = 0;',
+      '  for ($i = 0; $i < count($values); $i++) {',
+      '    if ($values[$i] > 0 && $total < $limit) {',
+      '      $total += $values[$i];',
+      '    }',
+      '  }',
+      '  return $total;',
+      '}'
+    ].join('\n'));
+
+    expect(measureHunk(hunk)).toMatchObject({ nestingDepth: 2, cyclomaticComplexity: 4, parameterCount: 2, lineCount: 9 });
+  });
+});
+
+test('analyzeComplexity flags metrics past their thresholds', () => {
+  const hunk = addedFileHunk('app/deep.py', [
+    'def deep(a, b, c, d, e, f):',
+    '    if a:',
+    '        if b:',
+    '            if c:',
+    '                if d:',
+    '                    if e:',
+    '                        return f'
+  ].join('\n'));
+
+  const { flags, suggestions, score } = analyzeComplexity(hunk, {
+    nestingDepth: 2,
+    cyclomaticComplexity: 10,
+    parameterCount: 4,
+    lineCount: 50,
+    dependencyCount: 10
+  });
+
+  expect(flags).toEqual([
+    { metric: 'nestingDepth', value: 5, threshold: 2, severity: 'critical' },
+    { metric: 'parameterCount', value: 6, threshold: 4, severity: 'warning' }
+  ]);
+  expect(suggestions).toHaveLength(2);
+  expect(score).toBeGreaterThan(0);
+});
@@ -0,0 +1,121 @@
+import { afterEach, beforeEach, describe, expect, test } from '@jest/globals';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { CliOptions, findConfigFile, loadConfig, resolveConfig, validateConfig } from '../src/config.js';
+import { DEFAULT_CONFIG } from '../src/types.js';
+
+let dir: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), 'reviewpal-config-'));
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+function writeConfig(path: string, config: object): string {
+  writeFileSync(path, JSON.stringify(config));
+  return path;
+}
+
+describe('validateConfig', () => {
+  test('names each bad key with its full path', () => {
+    expect(validateConfig({
+      modle: 'claude',
+      concurrency: 0,
+      complexityThresholds: { nestingDepth: 'deep' },
+      overrides: [{ files: 'src/**' }]
+    })).toEqual([
+      expect.stringMatching(/^"modle" is not a known option \(expected one of: provider, /),
+      '"concurrency" must be a positive integer (got 0)',
+      '"complexityThresholds.nestingDepth" must be a positive number (got "deep")',
+      '"overrides[0].files" must be an array of non-empty strings (got "src/**")'
+    ]);
+  });
+
+  test('accepts a valid config', () => {
+    expect(validateConfig({ model: 'claude-sonnet-4-20250514', budget: { usd: 1 }, secretsAllowlist: ['^test_'] })).toEqual([]);
+  });
+
+  test('loadConfig reports the file and the bad key', () => {
+    const path = writeConfig(join(dir, '.reviewpalrc.json'), { provider: 'gemini' });
+
+    expect(() => loadConfig(path)).toThrow(`Invalid config in ${path}:\n  - "provider" must be one of: anthropic, openai, fake (got "gemini")`);
+  });
+});
+
+describe('findConfigFile', () => {
+  test('searches upward from the start directory', () => {
+    mkdirSync(join(dir, '.git'));
+    mkdirSync(join(dir, 'packages', 'web'), { recursive: true });
+    const path = writeConfig(join(dir, 'reviewpal.config.json'), {});
+
+    expect(findConfigFile(join(dir, 'packages', 'web'))).toBe(path);
+  });
+
+  test('stops at the repository root', () => {
+    writeConfig(join(dir, '.reviewpalrc.json'), {});
+    mkdirSync(join(dir, 'repo', '.git'), { recursive: true });
+    mkdirSync(join(dir, 'repo', 'src'));
+
+    expect(findConfigFile(join(dir, 'repo', 'src'))).toBeNull();
+  });
+
+  test('prefers .reviewpalrc.json when both names are present', () => {
+    mkdirSync(join(dir, '.git'));
+    const path = writeConfig(join(dir, '.reviewpalrc.json'), {});
+    writeConfig(join(dir, 'reviewpal.config.json'), {});
+
+    expect(findConfigFile(dir)).toBe(path);
+  });
+});
+
+describe('resolveConfig', () => {
+  const DEFAULT_OPTIONS: CliOptions = {
+    format: 'friendly',
+    maxHunks: '20',
+    cache: true,
+    model: DEFAULT_CONFIG.model,
+    summary: true,
+    patterns: true,
+    complexity: true,
+    quiet: false
+  };
+
+  function resolve(options: Partial<CliOptions>, fromCli: string[] = []) {
+    const config = writeConfig(join(dir, '.reviewpalrc.json'), {
+      model: 'claude-haiku-4-5',
+      concurrency: 2,
+      cache: false,
+      exclude: ['docs/**'],
+      enabledAnalyzers: { summary: false }
+    });
+    return resolveConfig({ ...DEFAULT_OPTIONS, config, ...options }, key => fromCli.includes(key));
+  }
+
+  test('the file wins over flag defaults', () => {
+    const config = resolve({});
+
+    expect(config).toMatchObject({ model: 'claude-haiku-4-5', concurrency: 2, cache: false, exclude: ['docs/**'] });
+    expect(config.enabledAnalyzers.summary).toBe(false);
+  });
+
+  test('flags given on the command line win over the file', () => {
+    const config = resolve(
+      { model: 'claude-opus-4-1', concurrency: '8', cache: true, summary: true, exclude: ['vendor/**'] },
+      ['model', 'cache', 'summary']
+    );
+
+    expect(config).toMatchObject({ model: 'claude-opus-4-1', concurrency: 8, cache: true });
+    expect(config.enabledAnalyzers.summary).toBe(true);
+    expect(config.exclude).toEqual(['docs/**', 'vendor/**']);
+  });
+
+  test('a bad flag is named in the error', () => {
+    expect(() => resolve({ concurrency: 'many' })).toThrow('--concurrency must be a positive integer (got "many")');
+    expect(() => resolve({ maxHunks: '-1' })).toThrow('--max-hunks must be a non-negative integer (got "-1")');
+    expect(() => resolve({ record: 'a', replay: 'b' })).toThrow('--record and --replay cannot be used together');
+  });
+});
@@ -0,0 +1,250 @@
+import { describe, expect, test } from '@jest/globals';
+import { unreviewableReason } from '../src/parsers/diff.js';
+import { diff } from './helpers.js';
+
+describe('parseDiff file headers', () => {
+  test('a rename with edits keeps both paths and its hunks', () => {
+    const [file] = diff(
+      'diff --git a/src/old name.ts b/src/new name.ts',
+      'similarity index 90%',
+      'rename from src/old name.ts',
+      'rename to src/new name.ts',
+      'index 3b18e51..9f2c4d0 100644',
+      '--- a/src/old name.ts',
+      '+++ b/src/new name.ts',
+      '@@ -1 +1 @@',
+      '-export const a = 1;',
+      '+export const a = 2;'
+    );
+
+    expect(file).toMatchObject({ filename: 'src/new name.ts', oldFilename: 'src/old name.ts', changeKind: 'renamed', similarity: 90 });
+    expect(file.hunks).toHaveLength(1);
+    expect(unreviewableReason(file)).toBeNull();
+  });
+
+  test('a pure rename or copy has nothing to review', () => {
+    const [renamed, copied] = diff(
+      'diff --git a/a.ts b/b.ts',
+      'similarity index 100%',
+      'rename from a.ts',
+      'rename to b.ts',
+      'diff --git a/a.ts b/c.ts',
+      'similarity index 100%',
+      'copy from a.ts',
+      'copy to c.ts'
+    );
+
+    expect(renamed).toMatchObject({ filename: 'b.ts', oldFilename: 'a.ts', changeKind: 'renamed', hunks: [] });
+    expect(unreviewableReason(renamed)).toBe('renamed from a.ts without changes');
+    expect(copied).toMatchObject({ filename: 'c.ts', oldFilename: 'a.ts', changeKind: 'copied' });
+    expect(unreviewableReason(copied)).toBe('copied from a.ts without changes');
+  });
+
+  test('binary files are marked, whether summarized or given as a patch', () => {
+    const [changed, added] = diff(
+      'diff --git a/assets/logo.png b/assets/logo.png',
+      'index 3b18e51..9f2c4d0 100644',
+      'Binary files a/assets/logo.png and b/assets/logo.png differ',
+      'diff --git a/assets/icon.png b/assets/icon.png',
+      'new file mode 100644',
+      'index 0000000..4c5d2e1',
+      'GIT binary patch',
+      'literal 4',
+      'LcmZQzU|;|M00aO5',
+      ''
+    );
+
+    expect(changed).toMatchObject({ filename: 'assets/logo.png', binary: true, changeKind: 'modified' });
+    expect(unreviewableReason(changed)).toBe('binary file');
+    expect(added).toMatchObject({ filename: 'assets/icon.png', binary: true, changeKind: 'added', hunks: [] });
+    expect(unreviewableReason(added)).toBe('binary file (added)');
+  });
+
+  test('quoted paths are unquoted, including octal-escaped UTF-8', () => {
+    const [file] = diff(
+      'diff --git "a/docs/caf\\303\\251 menu.md" "b/docs/caf\\303\\251 menu.md"',
+      'index 3b18e51..9f2c4d0 100644',
+      '--- "a/docs/caf\\303\\251 menu.md"',
+      '+++ "b/docs/caf\\303\\251 menu.md"',
+      '@@ -1 +1 @@',
+      '-Coffee',
+      '+Café'
+    );
+
+    expect(file.filename).toBe('docs/café menu.md');
+    expect(file.hunks[0].filename).toBe('docs/café menu.md');
+  });
+
+  test('a quoted path with an escaped quote and tab', () => {
+    const [file] = diff(
+      'diff --git a/notes.txt "b/say \\"hi\\"\\tnow.txt"',
+      'similarity index 100%',
+      'rename from notes.txt',
+      'rename to "say \\"hi\\"\\tnow.txt"'
+    );
+
+    expect(file).toMatchObject({ filename: 'say "hi"\tnow.txt', oldFilename: 'notes.txt' });
+  });
+
+  test('a mode-only change has nothing to review', () => {
+    const [file] = diff(
+      'diff --git a/bin/run.sh b/bin/run.sh',
+      'old mode 100644',
+      'new mode 100755'
+    );
+
+    expect(file).toMatchObject({ filename: 'bin/run.sh', oldMode: '100644', newMode: '100755', hunks: [] });
+    expect(unreviewableReason(file)).toBe('mode changed from 100644 to 100755');
+  });
+
+  test('a mode change with edits is reviewed', () => {
+    const [file] = diff(
+      'diff --git a/bin/run.sh b/bin/run.sh',
+      'old mode 100644',
+      'new mode 100755',
+      'index 3b18e51..9f2c4d0',
+      '--- a/bin/run.sh',
+      '+++ b/bin/run.sh',
+      '@@ -1 +1,2 @@',
+      ' #!/bin/sh',
+      '+set -e'
+    );
+
+    expect(unreviewableReason(file)).toBeNull();
+  });
+});
+
+describe('no-newline markers', () => {
+  test('on an added last line, only the new side lacks the newline', () => {
+    const [file] = diff(
+      'diff --git a/a.txt b/a.txt',
+      '--- a/a.txt',
+      '+++ b/a.txt',
+      '@@ -1 +1,2 @@',
+      ' one',
+      '+two',
+      '\\ No newline at end of file'
+    );
+
+    expect(file.missingNewline).toEqual({ old: false, new: true });
+    expect(file.hunks[0].additions).toEqual(['two']);
+  });
+
+  test('on a replaced last line, each side is marked where its marker follows', () => {
+    const [file] = diff(
+      'diff --git a/a.txt b/a.txt',
+      '--- a/a.txt',
+      '+++ b/a.txt',
+      '@@ -1 +1 @@',
+      '-one',
+      '\\ No newline at end of file',
+      '+one',
+      ''
+    );
+
+    expect(file.missingNewline).toEqual({ old: true, new: false });
+    expect(file.hunks[0].lines.map(line => line.text)).toEqual(['one', 'one']);
+  });
+
+  test('on unchanged context, both sides lack it', () => {
+    const [file] = diff(
+      'diff --git a/a.txt b/a.txt',
+      '--- a/a.txt',
+      '+++ b/a.txt',
+      '@@ -1,2 +1,2 @@',
+      '-one',
+      '+uno',
+      ' two',
+      '\\ No newline at end of file'
+    );
+
+    expect(file.missingNewline).toEqual({ old: true, new: true });
+    expect(file.hunks[0].lines).toHaveLength(3);
+  });
+});
+
+describe('DiffLine numbering', () => {
+  test('each line gets the numbers of the sides it exists on', () => {
+    const [file] = diff(
+      'diff --git a/a.sql b/a.sql',
+      '--- a/a.sql',
+      '+++ b/a.sql',
+      '@@ -10,5 +10,5 @@ CREATE TABLE users (',
+      '   id serial,',
+      '-  name text,',
+      '--- legacy column',
+      '+  name text not null,',
+      '+  email text,',
+      '',
+      '   created_at timestamptz',
+      '@@ -30,2 +31,1 @@',
+      '-DROP TABLE old;',
+      ' COMMIT;'
+    );
+    const [first, second] = file.hunks;
+
+    expect(first.lines).toEqual([
+      { kind: 'context', oldLine: 10, newLine: 10, text: '  id serial,' },
+      { kind: 'remove', oldLine: 11, text: '  name text,' },
+      { kind: 'remove', oldLine: 12, text: '-- legacy column' },
+      { kind: 'add', newLine: 11, text: '  name text not null,' },
+      { kind: 'add', newLine: 12, text: '  email text,' },
+      // A blank context line whose leading space was stripped
+      { kind: 'context', oldLine: 13, newLine: 13, text: '' },
+      { kind: 'context', oldLine: 14, newLine: 14, text: '  created_at timestamptz' }
+    ]);
+    expect(first.addedLines).toEqual([11, 12]);
+    expect([first.startLine, first.endLine]).toEqual([10, 14]);
+
+    expect(second.lines).toEqual([
+      { kind: 'remove', oldLine: 30, text: 'DROP TABLE old;' },
+      { kind: 'context', oldLine: 31, newLine: 31, text: 'COMMIT;' }
+    ]);
+  });
+
+  test('a no-newline marker is not a line and does not shift the numbers', () => {
+    const [file] = diff(
+      'diff --git a/a.txt b/a.txt',
+      '--- a/a.txt',
+      '+++ b/a.txt',
+      '@@ -4,2 +4,3 @@',
+      ' three',
+      '-four',
+      '\\ No newline at end of file',
+      '+four',
+      '+five',
+      '\\ No newline at end of file'
+    );
+
+    expect(file.hunks[0].lines).toEqual([
+      { kind: 'context', oldLine: 4, newLine: 4, text: 'three' },
+      { kind: 'remove', oldLine: 5, text: 'four' },
+      { kind: 'add', newLine: 5, text: 'four' },
+      { kind: 'add', newLine: 6, text: 'five' }
+    ]);
+    expect(file.hunks[0].addedLines).toEqual([5, 6]);
+    expect(file.missingNewline).toEqual({ old: true, new: true });
+  });
+
+  test('an added file counts from line 1 and a deleted file has only old numbers', () => {
+    const [added, deleted] = diff(
+      'diff --git a/new.ts b/new.ts',
+      'new file mode 100644',
+      '--- /dev/null',
+      '+++ b/new.ts',
+      '@@ -0,0 +1,2 @@',
+      '+const a = 1;',
+      '+const b = 2;',
+      'diff --git a/old.ts b/old.ts',
+      'deleted file mode 100644',
+      '--- a/old.ts',
+      '+++ /dev/null',
+      '@@ -1,2 +0,0 @@',
+      '-const a = 1;',
+      '-const b = 2;'
+    );
+
+    expect(added.hunks[0].lines.map(line => [line.oldLine, line.newLine])).toEqual([[undefined, 1], [undefined, 2]]);
+    expect(deleted.hunks[0].lines.map(line => [line.oldLine, line.newLine])).toEqual([[1, undefined], [2, undefined]]);
+  });
+});
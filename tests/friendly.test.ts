@@ -0,0 +1,63 @@
+import { describe, expect, test } from '@jest/globals';
+import { formatFriendlyReviewResult } from '../src/formatters/friendly.js';
+import { addedFileHunk, hunkAnalysis, reviewResult } from './helpers.js';
+
+const cleanReview = { language: 'TypeScript', summary: 'Adds a helper.', critical: [] };
+
+describe('headline', () => {
+  test('a fully reviewed clean change gets the green check', () => {
+    const output = formatFriendlyReviewResult(reviewResult([
+      hunkAnalysis(addedFileHunk('src/a.ts', 'export const a = 1;'), { aiReview: cleanReview })
+    ]));
+
+    expect(output).toContain('✅ No critical issues found!');
+  });
+
+  test('failed AI calls replace the green check with a warning', () => {
+    const output = formatFriendlyReviewResult(reviewResult([
+      hunkAnalysis(addedFileHunk('src/a.ts', 'export const a = 1;'), {
+        status: 'not-analyzed',
+        errors: ['network: connect ECONNREFUSED 127.0.0.1:9']
+      }),
+      hunkAnalysis(addedFileHunk('src/b.ts', 'export const b = 2;'), { status: 'not-analyzed' })
+    ]));
+
+    expect(output).not.toContain('✅');
+    expect(output.startsWith('⚠️ **2 of 2 hunks were not fully analyzed**')).toBe(true);
+    expect(output).toContain('- `src/a.ts` lines 1-1 (AI analysis failed)');
+  });
+
+  test('hunks left out by --max-hunks count as not analyzed', () => {
+    const output = formatFriendlyReviewResult(reviewResult([
+      hunkAnalysis(addedFileHunk('src/a.ts', 'export const a = 1;'), { aiReview: cleanReview }),
+      hunkAnalysis(addedFileHunk('src/b.ts', 'export const b = 2;'), { status: 'over-max-hunks' })
+    ]));
+
+    expect(output).not.toContain('✅');
+    expect(output).toContain('⚠️ **1 of 2 hunks were not fully analyzed**');
+    expect(output).toContain('- `src/b.ts` lines 1-1 (lower risk, over --max-hunks)');
+  });
+
+  test('hunks with lines too large to send count as not fully analyzed', () => {
+    const output = formatFriendlyReviewResult(reviewResult([
+      hunkAnalysis(addedFileHunk('src/a.ts', 'export const a = 1;'), { aiReview: cleanReview }),
+      hunkAnalysis(addedFileHunk('src/b.ts', 'export const b = 2;'), {
+        aiReview: cleanReview,
+        skippedRanges: [{ startLine: 400, endLine: 900 }]
+      })
+    ]));
+
+    expect(output).not.toContain('✅');
+    expect(output).toContain('⚠️ **1 of 2 hunks were not fully analyzed**');
+    expect(output).toContain('- `src/b.ts` lines 400-900 (hunk too large)');
+  });
+});
+
+test('skipped files are listed with their reason', () => {
+  const output = formatFriendlyReviewResult(reviewResult(
+    [hunkAnalysis(addedFileHunk('src/a.ts', 'export const a = 1;'), { aiReview: cleanReview })],
+    { skippedFiles: [{ filename: 'assets/logo.png', reason: 'binary file' }, { filename: 'package-lock.json', reason: 'generated, lock, vendored or binary file' }] }
+  ));
+
+  expect(output).toContain('**⏭️ Skipped files:**\n\n- `assets/logo.png` (binary file)\n- `package-lock.json` (generated, lock, vendored or binary file)');
+});
@@ -0,0 +1,30 @@
+import { expect, test } from '@jest/globals';
+import { formatGithubReviewResult } from '../src/formatters/github.js';
+import { addedFileHunk, diff, hunkAnalysis, reviewResult } from './helpers.js';
+
+test('skipped files get a file-level notice', () => {
+  const output = formatGithubReviewResult(reviewResult(
+    [hunkAnalysis(addedFileHunk('src/a.ts', 'export const a = 1;'))],
+    { skippedFiles: [{ filename: 'assets/logo.png', reason: 'binary file' }] }
+  ));
+
+  expect(output.split('\n')).toContain('::notice file=assets/logo.png,title=ReviewPal%3A file skipped::Not reviewed: binary file');
+});
+
+test('a finding in removed code is annotated on the whole file', () => {
+  const [file] = diff(
+    'diff --git a/src/old.ts b/src/old.ts',
+    'deleted file mode 100644',
+    '--- a/src/old.ts',
+    '+++ /dev/null',
+    '@@ -1 +0,0 @@',
+    '-export const token = load();'
+  );
+  const finding = { type: 'crash' as const, line: 1, reportedLine: 1, fileLevel: true, issue: 'Callers still import token.', friendlySuggestion: 'Remove the imports too.' };
+  const output = formatGithubReviewResult(reviewResult([
+    hunkAnalysis(file.hunks[0], { aiReview: { language: 'TypeScript', summary: 'Deletes old.ts.', critical: [finding] } })
+  ]));
+
+  expect(output).toContain('::error file=src/old.ts,title=ReviewPal%3A crash::Callers still import token.%0ARemove the imports too.');
+  expect(output).not.toContain('line=');
+});
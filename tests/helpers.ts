@@ -0,0 +1,68 @@
+/**
+ * Shared helpers for building diff hunks and review results in tests
+ */
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { parseDiff } from '../src/parsers/diff.js';
+import { DiffFile, DiffHunk, HunkAnalysis, ReviewResult } from '../src/types.js';
+
+export const FIXTURES_DIR = join(__dirname, 'fixtures');
+
+/**
+ * Parse a unified diff given as lines
+ */
+export function diff(...lines: string[]): DiffFile[] {
+  return parseDiff(lines.join('\n')).files;
+}
+
+/**
+ * A new file holding `content`, as one hunk of added lines
+ */
+export function addedFileHunk(filename: string, content: string): DiffHunk {
+  const lines = content.replace(/\n$/, '').split('\n');
+  return diff(
+    `diff --git a/${filename} b/${filename}`,
+    'new file mode 100644',
+    '--- /dev/null',
+    `+++ b/${filename}`,
+    `@@ -0,0 +1,${lines.length} @@`,
+    ...lines.map(line => `+${line}`)
+  )[0].hunks[0];
+}
+
+/**
+ * One of tests/fixtures as a newly added file
+ */
+export function fixtureHunk(name: string): DiffHunk {
+  return addedFileHunk(name, readFileSync(join(FIXTURES_DIR, name), 'utf-8'));
+}
+
+/**
+ * An analyzed hunk with no findings, plus `overrides`
+ */
+export function hunkAnalysis(hunk: DiffHunk, overrides: Partial<HunkAnalysis> = {}): HunkAnalysis {
+  return { hunk, status: 'analyzed', processingTime: 0, ...overrides };
+}
+
+/**
+ * A review of `hunks`, grouped into files in the order given
+ */
+export function reviewResult(hunks: HunkAnalysis[], overrides: Partial<ReviewResult> = {}): ReviewResult {
+  const filenames = [...new Set(hunks.map(analysis => analysis.hunk.filename))];
+  return {
+    files: filenames.map(filename => ({
+      filename,
+      changeKind: 'modified',
+      hunks: hunks.filter(analysis => analysis.hunk.filename === filename),
+      overallComplexity: 0
+    })),
+    totalHunks: hunks.length,
+    totalProcessingTime: 0,
+    aiCodeLikelihood: 'low',
+    aiLikelihood: { level: 'low', score: 0, signals: [] },
+    skippedFiles: [],
+    usage: { inputTokens: 0, outputTokens: 0 },
+    ...overrides
+  };
+}
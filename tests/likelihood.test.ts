@@ -0,0 +1,85 @@
+import { describe, expect, test } from '@jest/globals';
+import { combineLikelihoods, estimateHunkLikelihood, hunksLikelihood } from '../src/analyzers/likelihood.js';
+import { PatternMatch } from '../src/types.js';
+import { addedFileHunk, hunkAnalysis } from './helpers.js';
+
+const COMMENTED = [
+  '// Validate the input first',
+  'const valid = check(input);',
+  '// Return early when invalid',
+  'if (!valid) return;',
+  '// Store the result',
+  'save(input);'
+].join('\n');
+
+function pattern(type: PatternMatch['type']): PatternMatch {
+  return { type, lines: [1], issue: 'test' };
+}
+
+describe('estimateHunkLikelihood', () => {
+  test('plain code scores low with no signals', () => {
+    expect(estimateHunkLikelihood(addedFileHunk('src/a.ts', 'export const a = 1;\nexport const b = 2;')))
+      .toEqual({ level: 'low', score: 0, signals: [] });
+  });
+
+  test('text heuristics add up to a level', () => {
+    expect(estimateHunkLikelihood(addedFileHunk('src/a.ts', COMMENTED))).toEqual({
+      level: 'medium',
+      score: 3,
+      signals: ['3 sentence-case comments', '50% comment lines']
+    });
+  });
+
+  test('each pattern type adds one point, however often it was found', () => {
+    const likelihood = estimateHunkLikelihood(
+      addedFileHunk('src/a.ts', COMMENTED),
+      [pattern('over-defensive'), pattern('over-defensive'), pattern('naming-chaos')]
+    );
+
+    expect(likelihood.level).toBe('high');
+    expect(likelihood.score).toBe(5);
+    expect(likelihood.signals).toEqual(expect.arrayContaining(['over-defensive pattern', 'naming-chaos pattern']));
+  });
+});
+
+describe('combineLikelihoods', () => {
+  test('nothing to combine is low', () => {
+    expect(combineLikelihoods([])).toEqual({ level: 'low', score: 0, signals: [] });
+    expect(combineLikelihoods([{ likelihood: { level: 'high', score: 5, signals: [] }, weight: 0 }]))
+      .toEqual({ level: 'low', score: 0, signals: [] });
+  });
+
+  test('a single estimate is returned unchanged', () => {
+    const likelihood = { level: 'high' as const, score: 5, signals: ['3 JSDoc blocks'] };
+
+    expect(combineLikelihoods([{ likelihood, weight: 10 }])).toBe(likelihood);
+  });
+
+  test('scores are averaged by weight and signals counted across estimates', () => {
+    const combined = combineLikelihoods([
+      { likelihood: { level: 'high', score: 4, signals: ['3 JSDoc blocks', '40% comment lines'] }, weight: 1 },
+      { likelihood: { level: 'medium', score: 2, signals: ['5 JSDoc blocks'] }, weight: 2 },
+      { likelihood: { level: 'low', score: 0, signals: [] }, weight: 3 }
+    ]);
+
+    expect(combined).toEqual({
+      level: 'low',
+      score: 1.3,
+      signals: ['JSDoc blocks (2 of 3 hunks)', 'comment lines (1 of 3 hunks)']
+    });
+  });
+});
+
+test('hunksLikelihood weights hunks by added lines and skips hunks without an estimate', () => {
+  const big = addedFileHunk('src/big.ts', Array.from({ length: 9 }, (_, i) => `const v${i} = ${i};`).join('\n'));
+  const small = addedFileHunk('src/small.ts', 'const v = 1;');
+
+  const likelihood = hunksLikelihood([
+    hunkAnalysis(big, { aiLikelihood: { level: 'low', score: 0, signals: [] } }),
+    hunkAnalysis(small, { aiLikelihood: { level: 'high', score: 10, signals: [] } }),
+    hunkAnalysis(small)
+  ]);
+
+  expect(likelihood.score).toBe(1);
+  expect(likelihood.level).toBe('low');
+});
@@ -0,0 +1,100 @@
+import { expect, test } from '@jest/globals';
+import { isPatchSeries, parsePatchSeries } from '../src/parsers/mbox.js';
+
+const SERIES = [
+  'From 3f2a9c1d5e7b4a8f9c0d1e2f3a4b5c6d7e8f9a0b Mon Sep 17 00:00:00 2001',
+  'From: Ada Lovelace <ada@example.com>',
+  'Date: Tue, 14 Oct 2025 09:12:00 +0200',
+  'Subject: [PATCH 1/2] Add retry helper',
+  '',
+  'Network calls fail now and then.',
+  '',
+  'From now on they are retried.',
+  'Signed-off-by: Ada Lovelace <ada@example.com>',
+  '---',
+  ' src/retry.ts | 3 +++',
+  ' 1 file changed, 3 insertions(+)',
+  '',
+  'diff --git a/src/retry.ts b/src/retry.ts',
+  'new file mode 100644',
+  '--- /dev/null',
+  '+++ b/src/retry.ts',
+  '@@ -0,0 +1,3 @@',
+  '+export async function retry<T>(fn: () => Promise<T>): Promise<T> {',
+  '+  return fn().catch(() => fn());',
+  '+}',
+  '-- ',
+  '2.43.0',
+  '',
+  'From 8b1e4d7a2c9f0e3b6a5d8c1f4e7b0a3d6c9f2e5b Mon Sep 17 00:00:00 2001',
+  'From: =?UTF-8?q?Jos=C3=A9=20Garc=C3=ADa?= <jose@example.com>',
+  'Date: Tue, 14 Oct 2025 09:15:00 +0200',
+  'Subject: [PATCH 2/2] Use the retry helper when',
+  ' fetching users',
+  '',
+  'diff --git a/src/users.ts b/src/users.ts',
+  '--- a/src/users.ts',
+  '+++ b/src/users.ts',
+  '@@ -1,2 +1,3 @@',
+  " import { api } from './api';",
+  "+import { retry } from './retry';",
+  '-export const getUsers = () => api.get("/users");',
+  '+export const getUsers = () => retry(() => api.get("/users"));',
+  '-- ',
+  '2.43.0',
+  ''
+].join('\n');
+
+test('a patch series is recognized by its first message', () => {
+  expect(isPatchSeries(SERIES)).toBe(true);
+  expect(isPatchSeries('diff --git a/a.ts b/a.ts\n--- a/a.ts')).toBe(false);
+  expect(isPatchSeries('From now on we retry.\nSigned-off-by: Ada <ada@example.com>')).toBe(false);
+});
+
+test('each patch becomes a commit with its own files', () => {
+  const { files } = parsePatchSeries(SERIES);
+
+  expect(files.map(file => [file.filename, file.commit?.hash])).toEqual([
+    ['src/retry.ts', '3f2a9c1d5e7b4a8f9c0d1e2f3a4b5c6d7e8f9a0b'],
+    ['src/users.ts', '8b1e4d7a2c9f0e3b6a5d8c1f4e7b0a3d6c9f2e5b']
+  ]);
+  expect(files[1].commit).toMatchObject({
+    subject: 'Use the retry helper when fetching users',
+    author: 'José García <jose@example.com>',
+    date: 'Tue, 14 Oct 2025 09:15:00 +0200',
+    message: ''
+  });
+  expect(files[1].hunks[0].additions).toEqual([
+    "import { retry } from './retry';",
+    'export const getUsers = () => retry(() => api.get("/users"));'
+  ]);
+});
+
+test('a "From " line in a commit message does not start a new patch', () => {
+  const { files } = parsePatchSeries(SERIES);
+
+  expect(files[0].commit).toMatchObject({
+    subject: 'Add retry helper',
+    author: 'Ada Lovelace <ada@example.com>',
+    message: 'Network calls fail now and then.\n\nFrom now on they are retried.\nSigned-off-by: Ada Lovelace <ada@example.com>'
+  });
+  expect(files[0].hunks[0].additions).toHaveLength(3);
+});
+
+test('messages from a mailing-list mbox have no commit hash', () => {
+  const { files } = parsePatchSeries([
+    'From ada@example.com Tue Oct 14 09:12:00 2025',
+    'From: Ada Lovelace <ada@example.com>',
+    'Subject: [PATCH v2] Fix typo',
+    '',
+    'diff --git a/README.md b/README.md',
+    '--- a/README.md',
+    '+++ b/README.md',
+    '@@ -1 +1 @@',
+    '-Helo',
+    '+Hello'
+  ].join('\n'));
+
+  expect(files).toHaveLength(1);
+  expect(files[0].commit).toMatchObject({ hash: undefined, subject: 'Fix typo' });
+});
@@ -0,0 +1,135 @@
+import { expect, test } from '@jest/globals';
+import { detectTrivialChanges } from '../src/analyzers/moves.js';
+import { diff } from './helpers.js';
+
+const WITHDRAW = [
+  'export function withdraw(account: Account, amount: number): void {',
+  '  const fee = feeFor(account, amount);',
+  '  const total = amount + fee;',
+  '  if (total > account.balance) throw new Error(\'Insufficient funds\');',
+  '  account.balance -= total;',
+  '  account.history.push({ kind: \'withdrawal\', total });',
+  '  notify(account.owner, total);',
+  '}'
+];
+
+/**
+ * `removed` taken out of src/old.ts and `added` put into src/new.ts
+ */
+function moveDiff(removed: string[], added: string[]) {
+  return diff(
+    'diff --git a/src/old.ts b/src/old.ts',
+    '--- a/src/old.ts',
+    '+++ b/src/old.ts',
+    `@@ -10,${removed.length} +9,0 @@`,
+    ...removed.map(line => `-${line}`),
+    'diff --git a/src/new.ts b/src/new.ts',
+    '--- a/src/new.ts',
+    '+++ b/src/new.ts',
+    `@@ -0,0 +1,${added.length} @@`,
+    ...added.map(line => `+${line}`)
+  );
+}
+
+test('code moved between files is marked with where it came from', () => {
+  const files = moveDiff(WITHDRAW, WITHDRAW);
+
+  expect(detectTrivialChanges(files)).toBe(1);
+  expect(files[1].hunks[0].trivial).toEqual({ kind: 'moved', movedFrom: { filename: 'src/old.ts', line: 10 } });
+});
+
+test('a move that drops a line is reviewed as a change', () => {
+  const files = moveDiff(WITHDRAW, WITHDRAW.filter(line => !line.includes('Insufficient funds')));
+
+  expect(detectTrivialChanges(files)).toBe(0);
+  expect(files[1].hunks[0].trivial).toBeUndefined();
+});
+
+/**
+ * One hunk of src/format.ts replacing `removed` with `added`
+ */
+function editDiff(removed: string[], added: string[]) {
+  return diff(
+    'diff --git a/src/format.ts b/src/format.ts',
+    '--- a/src/format.ts',
+    '+++ b/src/format.ts',
+    `@@ -1,${removed.length} +1,${added.length} @@`,
+    ...removed.map(line => `-${line}`),
+    ...added.map(line => `+${line}`)
+  );
+}
+
+test('re-indenting and re-spacing code is formatting only', () => {
+  const files = editDiff(
+    ['function total(items){', '    return items.reduce((sum,item)=>sum+item.price,0);', '}'],
+    ['function total(items) {', '', '  return items.reduce((sum, item) => sum + item.price, 0);', '}']
+  );
+
+  detectTrivialChanges(files);
+  expect(files[0].hunks[0].trivial).toEqual({ kind: 'formatting' });
+});
+
+test('whitespace inside string and template literals is a real change', () => {
+  for (const [before, after] of [
+    ["const separator = ', ';", "const separator = ',';"],
+    ['const label = `${count}  items`;', 'const label = `${count} items`;']
+  ]) {
+    const files = editDiff([before], [after]);
+
+    detectTrivialChanges(files);
+    expect(files[0].hunks[0].trivial).toBeUndefined();
+  }
+});
+
+test('a line break that changes meaning under ASI is a real change', () => {
+  const files = editDiff(['  return value;'], ['  return', '  value;']);
+
+  detectTrivialChanges(files);
+  expect(files[0].hunks[0].trivial).toBeUndefined();
+});
+
+test('whitespace that separates two operators is kept', () => {
+  const files = editDiff(['const next = a + +b;'], ['const next = a ++b;']);
+
+  detectTrivialChanges(files);
+  expect(files[0].hunks[0].trivial).toBeUndefined();
+});
+
+test('a hunk that pastes in moved code while deleting a check is reviewed as a change', () => {
+  const files = diff(
+    'diff --git a/src/b.ts b/src/b.ts',
+    '--- a/src/b.ts',
+    '+++ b/src/b.ts',
+    `@@ -10,${WITHDRAW.length} +9,0 @@`,
+    ...WITHDRAW.map(line => `-${line}`),
+    'diff --git a/src/auth.ts b/src/auth.ts',
+    '--- a/src/auth.ts',
+    '+++ b/src/auth.ts',
+    `@@ -4,1 +4,${WITHDRAW.length} @@`,
+    "-  if (!verifyPassword(user)) throw new Error('Unauthorized');",
+    ...WITHDRAW.map(line => `+${line}`)
+  );
+
+  expect(detectTrivialChanges(files)).toBe(0);
+  expect(files[1].hunks[0].trivial).toBeUndefined();
+});
+
+test('a hunk whose removed lines moved elsewhere is still a move', () => {
+  const helper = ['function fee(amount: number): number {', '  const rate = 0.01;', '  return amount * rate;', '}'];
+  const files = diff(
+    'diff --git a/src/a.ts b/src/a.ts',
+    '--- a/src/a.ts',
+    '+++ b/src/a.ts',
+    `@@ -1,${helper.length} +1,${WITHDRAW.length} @@`,
+    ...helper.map(line => `-${line}`),
+    ...WITHDRAW.map(line => `+${line}`),
+    'diff --git a/src/b.ts b/src/b.ts',
+    '--- a/src/b.ts',
+    '+++ b/src/b.ts',
+    `@@ -1,${WITHDRAW.length} +1,${helper.length} @@`,
+    ...WITHDRAW.map(line => `-${line}`),
+    ...helper.map(line => `+${line}`)
+  );
+
+  expect(detectTrivialChanges(files)).toBe(2);
+});
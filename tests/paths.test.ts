@@ -0,0 +1,46 @@
+import { describe, expect, test } from '@jest/globals';
+import { exclusionReason, matchesAny, resolvePathConfig } from '../src/paths.js';
+import { mergeConfig } from '../src/config.js';
+import { DEFAULT_CONFIG } from '../src/types.js';
+
+describe('matchesAny', () => {
+  test('patterns without a slash match the basename anywhere', () => {
+    expect(matchesAny('package-lock.json', ['package-lock.json'])).toBe(true);
+    expect(matchesAny('web/package-lock.json', ['package-lock.json'])).toBe(true);
+    expect(matchesAny('assets/logo.png', ['*.{png,svg}'])).toBe(true);
+  });
+
+  test('matching is case-sensitive unless asked otherwise', () => {
+    expect(matchesAny('Docs/guide.md', ['docs/**'])).toBe(false);
+    expect(matchesAny('assets/Logo.PNG', ['*.{png,svg}'])).toBe(false);
+    expect(matchesAny('assets/Logo.PNG', ['*.{png,svg}'], true)).toBe(true);
+  });
+
+  test('dot files and directories are matched', () => {
+    expect(matchesAny('.env.local', ['.env*'])).toBe(true);
+    expect(matchesAny('src/.cache/data.json', ['**/*.json'])).toBe(true);
+  });
+
+  test('patterns with a slash match from the repository root', () => {
+    expect(matchesAny('migrations/001_init.sql', ['migrations/**'])).toBe(true);
+    expect(matchesAny('db/migrations/001_init.sql', ['migrations/**'])).toBe(false);
+    expect(matchesAny('.github/workflows/ci.yml', ['.github/**'])).toBe(true);
+  });
+});
+
+test('exclusionReason applies include, exclude and the built-in list in that order', () => {
+  const config = mergeConfig(DEFAULT_CONFIG, { include: ['src/**'], exclude: ['src/legacy/**'] });
+
+  expect(exclusionReason('docs/guide.md', config)).toBe('not matched by include');
+  expect(exclusionReason('src/legacy/old.ts', config)).toBe('excluded by config');
+  expect(exclusionReason('src/api/__snapshots__/client.test.ts.snap', config)).toBe('generated, lock, vendored or binary file');
+  expect(exclusionReason('src/assets/Logo.PNG', config)).toBe('generated, lock, vendored or binary file');
+  expect(exclusionReason('src/api/client.ts', config)).toBeNull();
+});
+
+test('resolvePathConfig applies matching overrides', () => {
+  const config = mergeConfig(DEFAULT_CONFIG, { overrides: [{ files: ['migrations/**'], enabledAnalyzers: { aiReview: false } }] });
+
+  expect(resolvePathConfig('migrations/001_init.sql', config).enabledAnalyzers.aiReview).toBe(false);
+  expect(resolvePathConfig('src/db.ts', config).enabledAnalyzers.aiReview).toBe(true);
+});
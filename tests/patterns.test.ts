@@ -0,0 +1,78 @@
+import { describe, expect, test } from '@jest/globals';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { analyzePatterns } from '../src/analyzers/patterns.js';
+import { PatternType } from '../src/types.js';
+import { addedFileHunk, fixtureHunk } from './helpers.js';
+
+// The patterns each fixture was written to demonstrate (see TESTING.md)
+const EXPECTED: Record<string, PatternType[]> = {
+  'over-engineered-class.ts': ['over-abstraction', 'verbose-comments'],
+  'verbose-comments.ts': ['verbose-comments'],
+  'defensive-error-handling.tsx': ['over-defensive', 'catch-all-error'],
+  'monolithic-component.tsx': ['monolithic-function']
+};
+
+describe('analyzePatterns on fixtures', () => {
+  test.each(Object.entries(EXPECTED))('%s', (name, expected) => {
+    const hunk = fixtureHunk(name);
+    const { patternsFound, keyQuestion } = analyzePatterns(hunk);
+
+    expect(patternsFound.map(match => match.type)).toEqual(expect.arrayContaining(expected));
+    expect(keyQuestion).toBeDefined();
+    for (const match of patternsFound) {
+      expect(match.lines.length).toBeGreaterThan(0);
+      expect(match.lines.every(line => line >= hunk.startLine && line <= hunk.endLine)).toBe(true);
+      expect(match.issue.length).toBeGreaterThan(0);
+      expect(match.simplerAlternative?.length).toBeGreaterThan(0);
+    }
+  });
+});
+
+test('plain code has no patterns', () => {
+  const hunk = addedFileHunk('sum.ts', [
+    "import { readFileSync } from 'fs';",
+    '',
+    'export function sum(path: string): number {',
+    "  return readFileSync(path, 'utf-8').split('\\n').map(Number).reduce((a, b) => a + b, 0);",
+    '}'
+  ].join('\n'));
+
+  expect(analyzePatterns(hunk)).toEqual({ patternsFound: [], overallAiLikelihood: 'low', keyQuestion: undefined });
+});
+
+describe('monolithic-function', () => {
+  const longFunction = (name: string, body: string) => [
+    `export function ${name}(text: string): number {`,
+    ...Array.from({ length: 90 }, (_, i) => `  const v${i} = text.length + ${i};`),
+    `  return ${body};`,
+    '}'
+  ].join('\n');
+
+  test('braces inside regex literals and strings do not extend a TS function', () => {
+    const hunk = addedFileHunk('braces.ts', [
+      'export function countOpen(text: string): number {',
+      "  const quoted = '{{';",
+      '  return (text.match(/\\{/g) ?? []).length + quoted.length;',
+      '}',
+      '',
+      longFunction('afterwards', '0')
+    ].join('\n'));
+
+    const match = analyzePatterns(hunk).patternsFound.find(found => found.type === 'monolithic-function');
+    expect(match?.lines).toEqual([6, 98]);
+    expect(match?.issue).toBe('`afterwards` spans 93 lines');
+  });
+
+  test('the analyzers themselves are not reported as monolithic', () => {
+    const hunk = addedFileHunk('src/analyzers/patterns.ts', readFileSync(join(__dirname, '../src/analyzers/patterns.ts'), 'utf-8'));
+
+    expect(analyzePatterns(hunk).patternsFound.map(found => found.type)).not.toContain('monolithic-function');
+  });
+
+  test('other languages still use the brace heuristic', () => {
+    const hunk = addedFileHunk('long.php', longFunction('long', '0').replace('export function long(text: string): number', 'function long($text)'));
+
+    expect(analyzePatterns(hunk).patternsFound.find(found => found.type === 'monolithic-function')?.issue).toBe('`long` spans 93 lines');
+  });
+});
@@ -0,0 +1,112 @@
+import { beforeAll, describe, expect, test } from '@jest/globals';
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { analyzeHunk } from '../src/analyze.js';
+import { initProvider } from '../src/api/provider.js';
+import { mergeConfig } from '../src/config.js';
+import { formatMarkdownReviewResult } from '../src/formatters/markdown.js';
+import { formatSarifReviewResult } from '../src/formatters/sarif.js';
+import { parseDiff } from '../src/parsers/diff.js';
+import { DEFAULT_CONFIG, DiffFile, HunkAnalysis } from '../src/types.js';
+import { FIXTURES_DIR, reviewResult } from './helpers.js';
+
+// Anthropic and OpenAI response bodies for pipeline.diff, including a truncated tool call
+// and a reply with no tool call. To re-record after prompt changes, from the repository root:
+// reviewpal tests/fixtures/pipeline.diff --context-lines 0 --record tests/fixtures/recorded
+const RECORDED_DIR = join(FIXTURES_DIR, 'recorded');
+const config = mergeConfig(DEFAULT_CONFIG, { cache: false, contextLines: 0 });
+
+async function analyzeFiles(files: DiffFile[]): Promise<HunkAnalysis[]> {
+  const analyses: HunkAnalysis[] = [];
+  for (const hunk of files.flatMap(file => file.hunks)) {
+    analyses.push(await analyzeHunk(hunk, config));
+  }
+  return analyses;
+}
+
+describe('parse, analyze and format against recorded responses', () => {
+  let analyses: HunkAnalysis[];
+
+  beforeAll(async () => {
+    initProvider('anthropic', { replayDir: RECORDED_DIR, maxRetries: 0 });
+    analyses = await analyzeFiles(parseDiff(readFileSync(join(FIXTURES_DIR, 'pipeline.diff'), 'utf-8')).files);
+  });
+
+  test('every hunk is answered from the recordings', () => {
+    expect(analyses.map(analysis => [analysis.hunk.filename, analysis.status])).toEqual([
+      ['src/db/users.ts', 'analyzed'],
+      ['src/utils/format.ts', 'analyzed'],
+      ['src/jobs/cleanup.ts', 'analysis-failed']
+    ]);
+  });
+
+  test('a summary is read out of prose and a code fence', () => {
+    expect(analyses[0].summary).toEqual({
+      what: 'Adds findUsersByName, a substring search on user names, and deleteUser.',
+      why: 'Likely supports a user search screen and account removal.',
+      watch: ['The name is interpolated into the SQL string', 'deleteUser does not check that the user exists']
+    });
+  });
+
+  test('a tool call cut off at the token limit is repaired, and both calls are counted', () => {
+    const [, format] = analyses;
+    expect(format.aiReview).toEqual({
+      language: 'TypeScript',
+      summary: "Adds a helper that formats a user's name and email for display.",
+      critical: []
+    });
+    expect(format.summary?.what).toBe('Adds displayName, which formats a user as "Name <email>".');
+    expect(format.usage).toMatchObject({ inputTokens: 1021 + 1174 + 402, outputTokens: 24 + 41 + 48 });
+  });
+
+  test('a review that is still invalid after the repair fails its hunk but keeps the summary', () => {
+    const [, , cleanup] = analyses;
+    expect(cleanup.aiReview).toBeUndefined();
+    expect(cleanup.errors).toEqual([
+      'invalid-response: Invalid AI response: critical[0].line must be a positive integer; critical[0].friendlySuggestion must be a non-empty string'
+    ]);
+    expect(cleanup.summary?.what).toBe('Keeps sessions for 60 days instead of 30 before purging them.');
+  });
+
+  test('reported lines land on the added SQL query', () => {
+    const [users] = analyses;
+    expect(users.aiReview?.critical).toEqual([expect.objectContaining({ type: 'security', line: 12 })]);
+    expect(users.hunk.lines.find(line => line.newLine === 12)?.text).toContain('SELECT * FROM users');
+    expect(analyses[1].aiReview?.critical).toEqual([]);
+  });
+
+  test('formatters render the findings', () => {
+    const result = reviewResult(analyses);
+
+    const markdown = formatMarkdownReviewResult(result);
+    expect(markdown).toContain('src/db/users.ts');
+    expect(markdown).toContain('allowing SQL injection');
+
+    const sarif = JSON.parse(formatSarifReviewResult(result, 'test'));
+    expect(sarif.runs[0].results).toEqual(expect.arrayContaining([
+      expect.objectContaining({
+        locations: [expect.objectContaining({
+          physicalLocation: expect.objectContaining({
+            artifactLocation: expect.objectContaining({ uri: 'src/db/users.ts' }),
+            region: expect.objectContaining({ startLine: 12 })
+          })
+        })]
+      })
+    ]));
+  });
+});
+
+test('a request that was never recorded leaves its hunk not analyzed', async () => {
+  const emptyDir = mkdtempSync(join(tmpdir(), 'reviewpal-replay-'));
+  try {
+    initProvider('anthropic', { replayDir: emptyDir, maxRetries: 0 });
+    const [analysis] = await analyzeFiles(parseDiff(readFileSync(join(FIXTURES_DIR, 'pipeline.diff'), 'utf-8')).files.slice(0, 1));
+
+    expect(analysis.status).toBe('not-analyzed');
+    expect(analysis.errors?.[0]).toMatch(/^invalid-request: No recorded response/);
+    expect(analysis.patterns).toBeDefined();
+  } finally {
+    rmSync(emptyDir, { recursive: true, force: true });
+  }
+});
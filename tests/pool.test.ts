@@ -0,0 +1,56 @@
+import { expect, test } from '@jest/globals';
+import { mapWithConcurrency } from '../src/pool.js';
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+test('never runs more than the limit at once', async () => {
+  let running = 0;
+  let peak = 0;
+
+  await mapWithConcurrency(Array.from({ length: 10 }, (_, i) => i), 3, async item => {
+    running++;
+    peak = Math.max(peak, running);
+    await delay(item % 3);
+    running--;
+  });
+
+  expect(peak).toBe(3);
+});
+
+test('results keep the input order when tasks finish out of order', async () => {
+  const progress: number[] = [];
+
+  const results = await mapWithConcurrency(
+    [30, 10, 20, 0],
+    4,
+    async (ms, index) => {
+      await delay(ms);
+      return `${index}:${ms}`;
+    },
+    completed => progress.push(completed)
+  );
+
+  expect(results).toEqual(['0:30', '1:10', '2:20', '3:0']);
+  expect(progress).toEqual([1, 2, 3, 4]);
+});
+
+test('a rejected task rejects the whole map with its error', async () => {
+  const started: number[] = [];
+
+  const run = mapWithConcurrency([1, 2, 3, 4], 1, async item => {
+    started.push(item);
+    if (item === 2) throw new Error('task 2 failed');
+    return item;
+  });
+
+  await expect(run).rejects.toThrow('task 2 failed');
+  // With one worker, nothing after the failed task is started
+  expect(started).toEqual([1, 2]);
+});
+
+test('an empty list resolves without calling the worker', async () => {
+  let calls = 0;
+
+  await expect(mapWithConcurrency([], 4, async () => calls++)).resolves.toEqual([]);
+  expect(calls).toBe(0);
+});
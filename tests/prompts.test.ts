@@ -0,0 +1,46 @@
+import { expect, test } from '@jest/globals';
+import { buildSummaryPrompt } from '../src/analyzers/summary.js';
+import { buildReviewPrompt, surroundingCode } from '../src/api/review.js';
+import { addedFileHunk } from './helpers.js';
+
+// 2000 lines of surrounding code around a one-line change at line 1000
+function hunkWithLongContext() {
+  const hunk = addedFileHunk('src/big.ts', 'export const added = true;');
+  hunk.startLine = 1000;
+  hunk.endLine = 1000;
+  hunk.context = Array.from({ length: 2000 }, (_, i) => `const line${i + 1} = ${i + 1};`).join('\n');
+  hunk.contextStartLine = 1;
+  return hunk;
+}
+
+test('both prompts send the same bounded surrounding code', () => {
+  const hunk = hunkWithLongContext();
+
+  const sent = surroundingCode(hunk);
+  expect(sent.length).toBeLessThanOrEqual(6000);
+  expect(sent.length).toBeGreaterThan(5900);
+  for (const prompt of [buildReviewPrompt(hunk), buildSummaryPrompt(hunk)]) {
+    expect(prompt).toContain(sent);
+    expect(prompt).not.toContain('const line1 = 1;');
+    expect(prompt).not.toContain('const line2000 = 2000;');
+    expect(prompt.length).toBeLessThan(sent.length + 3000);
+  }
+});
+
+test('long surrounding code is trimmed evenly around the change', () => {
+  const lines = surroundingCode(hunkWithLongContext()).split('\n');
+  const numbers = lines.map(line => Number(/line(\d+)/.exec(line)?.[1]));
+
+  expect(lines[0]).toMatch(/^const line\d+ = \d+;$/);
+  expect(lines[lines.length - 1]).toMatch(/^const line\d+ = \d+;$/);
+  expect(numbers).toContain(999);
+  expect(numbers).toContain(1001);
+  expect(Math.abs((1000 - numbers[0]) - (numbers[numbers.length - 1] - 1000))).toBeLessThanOrEqual(1);
+});
+
+test('short surrounding code is sent as is', () => {
+  const hunk = addedFileHunk('src/small.ts', 'export const added = true;');
+  hunk.context = 'const before = 1;\nexport const added = true;\nconst after = 2;';
+
+  expect(surroundingCode(hunk)).toBe(hunk.context);
+});
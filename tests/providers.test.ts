@@ -0,0 +1,148 @@
+import { afterEach, describe, expect, jest, test } from '@jest/globals';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import Anthropic from '@anthropic-ai/sdk';
+import { parseAnthropicMessage } from '../src/api/anthropic.js';
+import { createFakeProvider, loadFakeRules } from '../src/api/fake.js';
+import { createOpenAIProvider } from '../src/api/openai.js';
+import { initProvider, ToolSpec } from '../src/api/provider.js';
+import { classifyError } from '../src/api/retry.js';
+import { loadConfig } from '../src/config.js';
+
+const TOOL: ToolSpec = { name: 'submit_review', description: 'Submit the review', inputSchema: { type: 'object' } };
+
+describe('openai provider', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  function mockFetch(response: Response) {
+    return jest.spyOn(globalThis, 'fetch').mockResolvedValue(response);
+  }
+
+  const completion = (message: object, usage?: object) => new Response(JSON.stringify({
+    choices: [{ index: 0, message: { role: 'assistant', content: null, ...message }, finish_reason: 'stop' }],
+    ...(usage ? { usage } : {})
+  }));
+
+  test('sends the prompt and forces the tool', async () => {
+    const fetch = mockFetch(completion({ tool_calls: [{ function: { arguments: '{}' } }] }));
+    const provider = createOpenAIProvider({ apiKey: 'sk-test', baseUrl: 'http://localhost:11434/v1/' });
+
+    await provider.complete({ prompt: 'Review this', model: 'llama3', maxTokens: 800, tool: TOOL });
+
+    const [url, init] = fetch.mock.calls[0] as [string, RequestInit];
+    expect(url).toBe('http://localhost:11434/v1/chat/completions');
+    expect(init.headers).toMatchObject({ authorization: 'Bearer sk-test' });
+    expect(JSON.parse(init.body as string)).toEqual({
+      model: 'llama3',
+      max_tokens: 800,
+      messages: [{ role: 'user', content: 'Review this' }],
+      tools: [{ type: 'function', function: { name: 'submit_review', description: 'Submit the review', parameters: { type: 'object' } } }],
+      tool_choice: { type: 'function', function: { name: 'submit_review' } }
+    });
+  });
+
+  test('returns the tool arguments and usage', async () => {
+    mockFetch(completion(
+      { tool_calls: [{ function: { arguments: '{"critical":[]}' } }] },
+      { prompt_tokens: 120, completion_tokens: 15, total_tokens: 135 }
+    ));
+    const provider = createOpenAIProvider({ apiKey: 'sk-test' });
+
+    const response = await provider.complete({ prompt: 'Review this', model: 'gpt-4o', maxTokens: 800, tool: TOOL });
+    expect(response.text).toBe('{"critical":[]}');
+    expect(response.usage).toEqual({ inputTokens: 120, outputTokens: 15 });
+  });
+
+  test('falls back to the message text, and leaves usage unset when not reported', async () => {
+    mockFetch(completion({ content: '{"what":"x"}' }));
+    const provider = createOpenAIProvider({ baseUrl: 'http://localhost:8080/v1' });
+
+    const response = await provider.complete({ prompt: 'Summarize', model: 'local', maxTokens: 400 });
+    expect(response).toMatchObject({ text: '{"what":"x"}', usage: undefined });
+  });
+
+  test('turns an HTTP error into a classified error with its retry-after', async () => {
+    mockFetch(new Response('{"error":"slow down"}', { status: 429, statusText: 'Too Many Requests', headers: { 'retry-after': '3' } }));
+    const provider = createOpenAIProvider({ apiKey: 'sk-test' });
+
+    const error = await provider.complete({ prompt: 'Review this', model: 'gpt-4o', maxTokens: 800 }).catch(e => e);
+    expect(classifyError(error)).toMatchObject({ kind: 'rate-limit', status: 429, retryAfterMs: 3000 });
+    expect((error as Error).message).toContain('{"error":"slow down"}');
+  });
+
+  test('needs a key for the hosted API only', () => {
+    const saved = { ...process.env };
+    delete process.env.OPENAI_API_KEY;
+    delete process.env.OPENAI_BASE_URL;
+    try {
+      expect(() => createOpenAIProvider()).toThrow('OPENAI_API_KEY is required');
+      expect(() => createOpenAIProvider({ baseUrl: 'http://localhost:11434/v1' })).not.toThrow();
+    } finally {
+      process.env = saved;
+    }
+  });
+});
+
+describe('parseAnthropicMessage', () => {
+  const message = (content: object[]) => ({
+    id: 'msg_01', type: 'message', role: 'assistant', model: 'claude-sonnet-4-20250514', content,
+    stop_reason: 'end_turn', stop_sequence: null, usage: { input_tokens: 900, output_tokens: 60 }
+  }) as unknown as Anthropic.Message;
+
+  test('prefers the tool input over text', () => {
+    const response = parseAnthropicMessage(message([
+      { type: 'text', text: 'Submitting now.' },
+      { type: 'tool_use', id: 'toolu_01', name: 'submit_review', input: { critical: [] } }
+    ]));
+    expect(response).toEqual({ text: '{"critical":[]}', usage: { inputTokens: 900, outputTokens: 60 } });
+  });
+
+  test('returns the text of a reply without a tool call', () => {
+    expect(parseAnthropicMessage(message([{ type: 'text', text: 'No issues.' }])).text).toBe('No issues.');
+    expect(parseAnthropicMessage(message([])).text).toBe('');
+  });
+});
+
+describe('fake provider', () => {
+  test('answers with the first matching rule, or the fallback', async () => {
+    const provider = createFakeProvider([
+      { match: 'users\\.ts', response: { critical: [] } },
+      { match: 'users', response: 'second rule' }
+    ], 'fallback');
+
+    expect((await provider.complete({ prompt: 'FILE: src/users.ts', model: 'fake', maxTokens: 1 })).text).toBe('{"critical":[]}');
+    expect((await provider.complete({ prompt: 'FILE: src/users.go', model: 'fake', maxTokens: 1 })).text).toBe('second rule');
+    expect((await provider.complete({ prompt: 'FILE: src/other.ts', model: 'fake', maxTokens: 1 })).text).toBe('fallback');
+  });
+
+  describe('rules files', () => {
+    let dir: string;
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    test('a bad rule is reported by index', () => {
+      dir = mkdtempSync(join(tmpdir(), 'reviewpal-fake-'));
+      const path = join(dir, 'rules.json');
+      writeFileSync(path, JSON.stringify([{ match: 'a', response: 'b' }, { match: 'c' }]));
+
+      expect(() => loadFakeRules(path)).toThrow('rule 1 needs a "match" string and a "response"');
+      expect(() => loadFakeRules(join(dir, 'missing.json'))).toThrow('Fake rules file not found');
+    });
+
+    test('are found relative to the config file, not the working directory', async () => {
+      dir = mkdtempSync(join(tmpdir(), 'reviewpal-fake-'));
+      writeFileSync(join(dir, 'rules.json'), JSON.stringify([{ match: '.', response: 'from the rules file' }]));
+      writeFileSync(join(dir, '.reviewpalrc.json'), JSON.stringify({ provider: 'fake', fakeRules: 'rules.json' }));
+
+      const { config } = loadConfig(join(dir, '.reviewpalrc.json'));
+      expect(config.fakeRules).toBe(join(dir, 'rules.json'));
+      const provider = initProvider('fake', { fakeRules: config.fakeRules });
+      expect((await provider.complete({ prompt: 'anything', model: 'fake', maxTokens: 1 })).text).toBe('from the rules file');
+    });
+  });
+});
@@ -0,0 +1,43 @@
+import { afterEach, beforeEach, expect, jest, test } from '@jest/globals';
+import { ReviewApiError, withRetry } from '../src/api/retry.js';
+
+beforeEach(() => {
+  jest.useFakeTimers();
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+test('a retry-after longer than maxDelayMs is capped', async () => {
+  const fn = jest.fn<() => Promise<string>>()
+    .mockRejectedValueOnce(new ReviewApiError('slow down', 'rate-limit', 429, 10 * 60 * 1000))
+    .mockResolvedValue('ok');
+
+  const result = withRetry(fn, { maxRetries: 1, baseDelayMs: 10, maxDelayMs: 2000 });
+  await jest.advanceTimersByTimeAsync(1999);
+  expect(fn).toHaveBeenCalledTimes(1);
+  await jest.advanceTimersByTimeAsync(1);
+
+  await expect(result).resolves.toBe('ok');
+  expect(fn).toHaveBeenCalledTimes(2);
+});
+
+test('a shorter retry-after is honored as given', async () => {
+  const fn = jest.fn<() => Promise<string>>()
+    .mockRejectedValueOnce(new ReviewApiError('slow down', 'rate-limit', 429, 500))
+    .mockResolvedValue('ok');
+
+  const result = withRetry(fn, { maxRetries: 1, baseDelayMs: 10, maxDelayMs: 2000 });
+  await jest.advanceTimersByTimeAsync(500);
+
+  await expect(result).resolves.toBe('ok');
+  expect(fn).toHaveBeenCalledTimes(2);
+});
+
+test('errors that are not retryable are thrown at once', async () => {
+  const fn = jest.fn<() => Promise<string>>().mockRejectedValue(new ReviewApiError('bad key', 'auth', 401));
+
+  await expect(withRetry(fn, { maxRetries: 3, baseDelayMs: 10, maxDelayMs: 2000 })).rejects.toMatchObject({ kind: 'auth' });
+  expect(fn).toHaveBeenCalledTimes(1);
+});
@@ -0,0 +1,123 @@
+import { describe, expect, jest, test } from '@jest/globals';
+import { CompletionRequest, CompletionResponse, setProvider } from '../src/api/provider.js';
+import { mapReportedLine, reviewCode, validateReview } from '../src/api/review.js';
+import { ReviewApiError } from '../src/api/retry.js';
+import { addedFileHunk, diff } from './helpers.js';
+
+const [modified] = diff(
+  'diff --git a/src/a.ts b/src/a.ts',
+  '--- a/src/a.ts',
+  '+++ b/src/a.ts',
+  '@@ -10,3 +10,3 @@',
+  ' const a = 1;',
+  '-const b = 2;',
+  '+const b = 3;',
+  ' const c = 4;'
+);
+
+const [deleted] = diff(
+  'diff --git a/src/old.ts b/src/old.ts',
+  'deleted file mode 100644',
+  '--- a/src/old.ts',
+  '+++ /dev/null',
+  '@@ -1,2 +0,0 @@',
+  '-const a = 1;',
+  '-const b = 2;'
+);
+
+describe('mapReportedLine', () => {
+  test('keeps a line the hunk added', () => {
+    expect(mapReportedLine(11, modified.hunks[0])).toEqual({ line: 11 });
+  });
+
+  test('translates a line counted from the start of the snippet', () => {
+    expect(mapReportedLine(1, modified.hunks[0])).toEqual({ line: 11 });
+  });
+
+  test('clamps anything else to the nearest added line', () => {
+    expect(mapReportedLine(40, modified.hunks[0])).toEqual({ line: 11, reportedLine: 40 });
+  });
+
+  test('places findings in a deleted file on line 1 of the file as a whole', () => {
+    expect(deleted.hunks[0].startLine).toBe(0);
+    expect(mapReportedLine(2, deleted.hunks[0])).toEqual({ line: 1, reportedLine: 2, fileLevel: true });
+  });
+});
+
+describe('validateReview', () => {
+  const valid = {
+    language: 'TypeScript',
+    summary: 'Adds a search.',
+    critical: [{ type: 'security', line: 3, issue: 'SQL injection.', friendlySuggestion: 'Use a parameter.' }]
+  };
+
+  test('accepts a complete review', () => {
+    expect(validateReview(valid)).toEqual([]);
+    expect(validateReview({ ...valid, critical: [] })).toEqual([]);
+  });
+
+  test('names every bad field', () => {
+    expect(validateReview({
+      language: '',
+      summary: 'Adds a search.',
+      critical: [{ type: 'style', line: 0, issue: 'Naming.' }, 'not an object']
+    })).toEqual([
+      'language must be a non-empty string',
+      'critical[0].type must be one of: security, crash, data-loss, performance',
+      'critical[0].line must be a positive integer',
+      'critical[0].friendlySuggestion must be a non-empty string',
+      'critical[1].type must be one of: security, crash, data-loss, performance',
+      'critical[1].line must be a positive integer',
+      'critical[1].issue must be a non-empty string',
+      'critical[1].friendlySuggestion must be a non-empty string'
+    ]);
+  });
+
+  test('rejects anything that is not a review object', () => {
+    expect(validateReview(undefined)).toEqual(['response is not a JSON object']);
+    expect(validateReview([valid])).toEqual(['response is not a JSON object']);
+    expect(validateReview({ language: 'Go', summary: 'x' })).toEqual(['critical must be an array']);
+  });
+});
+
+describe('reviewCode repair', () => {
+  const hunk = addedFileHunk('src/search.ts', 'export const query = `SELECT * FROM t WHERE a = ${a}`;');
+  const VALID = '{"language":"TypeScript","summary":"Adds a query.","critical":[{"type":"security","line":1,"issue":"SQL injection.","friendlySuggestion":"Use a parameter."}]}';
+
+  function scripted(...texts: string[]) {
+    const complete = jest.fn<(request: CompletionRequest) => Promise<CompletionResponse>>();
+    texts.forEach(text => complete.mockResolvedValueOnce({ text }));
+    setProvider({ name: 'scripted', complete }, { maxRetries: 0 });
+    return complete;
+  }
+
+  test('a valid first answer is used as is', async () => {
+    const complete = scripted(VALID);
+
+    const review = await reviewCode(hunk, 'model');
+    expect(review.critical).toEqual([{ type: 'security', line: 1, issue: 'SQL injection.', friendlySuggestion: 'Use a parameter.' }]);
+    expect(complete).toHaveBeenCalledTimes(1);
+  });
+
+  test('a malformed answer is sent back once with what was wrong, and the repair is used', async () => {
+    const complete = scripted('{"language":"TypeScript","summary":"Adds a query.","critical":[{"type":"sql","line":1}', VALID);
+
+    const review = await reviewCode(hunk, 'model');
+    expect(review.summary).toBe('Adds a query.');
+    expect(complete).toHaveBeenCalledTimes(2);
+
+    const repair = complete.mock.calls[1][0].prompt;
+    expect(repair.startsWith(complete.mock.calls[0][0].prompt)).toBe(true);
+    expect(repair).toContain('Your previous answer was rejected:\n- response is not a JSON object');
+    expect(repair).toContain('"critical":[{"type":"sql","line":1}');
+  });
+
+  test('a repair that is still invalid fails with the remaining problems', async () => {
+    const complete = scripted('No critical issues found.', '{"language":"TypeScript","summary":"","critical":[]}');
+
+    const error = await reviewCode(hunk, 'model').catch(e => e);
+    expect(error).toBeInstanceOf(ReviewApiError);
+    expect(error).toMatchObject({ kind: 'invalid-response', message: 'Invalid AI response: summary must be a non-empty string' });
+    expect(complete).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, expect, test } from '@jest/globals';
+import { selectAiHunks, withoutAi } from '../src/analyze.js';
+import { scoreRisk } from '../src/analyzers/risk.js';
+import { DEFAULT_CONFIG, DiffHunk } from '../src/types.js';
+import { addedFileHunk, diff } from './helpers.js';
+
+const CODE = 'export function total(items: number[]) {\n  return items.reduce((sum, item) => sum + item, 0);\n}';
+
+describe('scoreRisk', () => {
+  test('says why a hunk scored what it did', () => {
+    const risk = scoreRisk(addedFileHunk('src/auth/login.ts', 'const user = db.query(`SELECT * FROM users WHERE name = ${name}`);'));
+
+    expect(risk.reasons).toEqual(['security-sensitive path', 'raw SQL', '1 added lines']);
+    expect(risk.score).toBe(5.5);
+  });
+
+  test('ranks sensitive code above plain code above tests and docs', () => {
+    const [sensitive, plain, testFile, docs] = ['src/payment/charge.ts', 'src/utils/total.ts', 'src/utils/total.test.ts', 'docs/total.md']
+      .map(filename => scoreRisk(addedFileHunk(filename, CODE)).score);
+
+    expect(sensitive).toBeGreaterThan(plain);
+    expect(plain).toBeGreaterThan(testFile);
+    expect(plain).toBeGreaterThan(docs);
+  });
+
+  test('removing a guard raises the score', () => {
+    const [file] = diff(
+      'diff --git a/src/orders.ts b/src/orders.ts',
+      '--- a/src/orders.ts',
+      '+++ b/src/orders.ts',
+      '@@ -1,4 +1,3 @@',
+      ' export function cancel(order: Order) {',
+      "-  if (!order.cancellable) throw new Error('Not cancellable');",
+      '   order.status = "cancelled";',
+      ' }'
+    );
+
+    expect(scoreRisk(file.hunks[0]).reasons).toContain('validation removed (1 lines)');
+    expect(scoreRisk(file.hunks[0]).score).toBeGreaterThan(scoreRisk(addedFileHunk('src/orders.ts', CODE)).score);
+  });
+});
+
+describe('selectAiHunks', () => {
+  const candidate = (filename: string, score: number, config = DEFAULT_CONFIG) =>
+    ({ hunk: addedFileHunk(filename, CODE), config, risk: { score, reasons: [] } });
+  const picked = (jobs: Array<{ hunk: DiffHunk; overMaxHunks: boolean }>) =>
+    jobs.filter(job => !job.overMaxHunks).map(job => job.hunk.filename);
+
+  test('gives the slots to the highest scores and keeps diff order', () => {
+    const jobs = selectAiHunks([candidate('a.ts', 1), candidate('b.ts', 5), candidate('c.ts', 3), candidate('d.ts', 4)], 2);
+
+    expect(jobs.map(job => job.hunk.filename)).toEqual(['a.ts', 'b.ts', 'c.ts', 'd.ts']);
+    expect(picked(jobs)).toEqual(['b.ts', 'd.ts']);
+  });
+
+  test('breaks ties in diff order', () => {
+    const jobs = selectAiHunks([candidate('a.ts', 2), candidate('b.ts', 3), candidate('c.ts', 2), candidate('d.ts', 2)], 2);
+
+    expect(picked(jobs)).toEqual(['a.ts', 'b.ts']);
+  });
+
+  test('hunks left out lose their AI analyzers only', () => {
+    const [, left] = selectAiHunks([candidate('a.ts', 2), candidate('b.ts', 1)], 1);
+
+    expect(left.overMaxHunks).toBe(true);
+    expect(left.config.enabledAnalyzers).toEqual({ ...DEFAULT_CONFIG.enabledAnalyzers, aiReview: false, summary: false });
+  });
+
+  test('hunks without AI calls never take a slot, however risky', () => {
+    const jobs = selectAiHunks([
+      candidate('moved.ts', 9, withoutAi(DEFAULT_CONFIG)),
+      candidate('a.ts', 1),
+      candidate('b.ts', 2)
+    ], 1);
+
+    expect(jobs.map(job => job.overMaxHunks)).toEqual([false, true, false]);
+    expect(picked(jobs)).toEqual(['moved.ts', 'b.ts']);
+  });
+
+  test('no slots leaves every AI hunk over the limit', () => {
+    expect(selectAiHunks([candidate('a.ts', 1), candidate('b.ts', 2)], 0).every(job => job.overMaxHunks)).toBe(true);
+  });
+});
@@ -0,0 +1,46 @@
+import { afterEach, beforeEach, describe, expect, test } from '@jest/globals';
+import { mkdtempSync, readdirSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { analyzeSummary } from '../src/analyzers/summary.js';
+import { createFakeProvider } from '../src/api/fake.js';
+import { setProvider } from '../src/api/provider.js';
+import { cacheKey, withCache } from '../src/cache.js';
+import { addedFileHunk } from './helpers.js';
+
+const hunk = addedFileHunk('src/a.ts', 'export const a = 1;');
+
+describe('analyzeSummary', () => {
+  let cacheDir: string;
+
+  beforeEach(() => {
+    cacheDir = mkdtempSync(join(tmpdir(), 'reviewpal-summary-'));
+  });
+
+  afterEach(() => {
+    rmSync(cacheDir, { recursive: true, force: true });
+  });
+
+  const summarize = () => withCache(cacheDir, cacheKey('summary', hunk, 'fake/model', 1), () => analyzeSummary(hunk, 'model'));
+
+  test('returns the parsed summary and caches it', async () => {
+    setProvider(createFakeProvider([], 'Sure: {"what": "Adds a constant", "why": "Needed by b.ts", "watch": ["", "Its value"]}'));
+
+    await expect(summarize()).resolves.toEqual({
+      value: { what: 'Adds a constant', why: 'Needed by b.ts', watch: ['Its value'] },
+      cached: false
+    });
+    await expect(summarize()).resolves.toMatchObject({ cached: true });
+  });
+
+  test.each([
+    ['prose', 'This change adds a constant.'],
+    ['broken JSON', '{"what": "Adds a constant", '],
+    ['a missing field', '{"what": "Adds a constant", "watch": []}']
+  ])('fails on %s and caches nothing', async (_, response) => {
+    setProvider(createFakeProvider([], response), { maxRetries: 0 });
+
+    await expect(summarize()).rejects.toMatchObject({ kind: 'invalid-response' });
+    expect(readdirSync(cacheDir)).toEqual([]);
+  });
+});
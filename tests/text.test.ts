@@ -0,0 +1,27 @@
+import { expect, test } from '@jest/globals';
+import { formatTextReviewResult } from '../src/formatters/text.js';
+import { addedFileHunk, hunkAnalysis, reviewResult } from './helpers.js';
+
+test('text output is printable ASCII only', () => {
+  const hunk = addedFileHunk('src/café/naïve.ts', 'export const total = price * quantity;');
+  const output = formatTextReviewResult(reviewResult([
+    hunkAnalysis(hunk, {
+      aiReview: {
+        language: 'TypeScript',
+        summary: '🔒 Adds “total” → price × quantity… ✅',
+        critical: [{
+          type: 'crash',
+          line: 1,
+          issue: 'Overflow ≥ 2⁵³ or 10⁻³ — see ┌─ note ─┐ 👍🏽 🇺🇸',
+          friendlySuggestion: 'Use BigInt\tor a 数 check'
+        }]
+      }
+    })
+  ]));
+
+  expect(output).toMatch(/^[\x20-\x7E\n]*$/);
+  expect(output).toContain('FILE src/cafe/naive.ts');
+  expect(output).toContain('Summary: Adds "total" -> price x quantity...');
+  expect(output).toContain('Overflow >= 2^53 or 10^-3 - see +- note -+');
+  expect(output).toContain('Use BigInt  or a ? check');
+});
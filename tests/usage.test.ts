@@ -0,0 +1,97 @@
+import { describe, expect, test } from '@jest/globals';
+import { analyzeHunk } from '../src/analyze.js';
+import { createFakeProvider } from '../src/api/fake.js';
+import { setProvider } from '../src/api/provider.js';
+import { mergeConfig } from '../src/config.js';
+import { estimateTokens } from '../src/parsers/chunk.js';
+import { mapWithConcurrency } from '../src/pool.js';
+import { DEFAULT_CONFIG } from '../src/types.js';
+import { budgetReached, createUsageLedger, parseBudget } from '../src/usage.js';
+import { addedFileHunk } from './helpers.js';
+
+describe('parseBudget', () => {
+  test('reads token counts with k and m suffixes', () => {
+    expect(parseBudget('200000')).toEqual({ tokens: 200000 });
+    expect(parseBudget('200k')).toEqual({ tokens: 200000 });
+    expect(parseBudget('1.5M')).toEqual({ tokens: 1500000 });
+  });
+
+  test('reads dollar amounts', () => {
+    expect(parseBudget('$0.50')).toEqual({ usd: 0.5 });
+    expect(parseBudget('2usd')).toEqual({ usd: 2 });
+  });
+
+  test('rejects anything else', () => {
+    expect(() => parseBudget('lots')).toThrow('--budget must be a token count');
+    expect(() => parseBudget('-5')).toThrow('--budget must be a token count');
+  });
+});
+
+describe('budgetReached', () => {
+  const price = { input: 3, output: 15 };
+
+  test('counts input and output tokens together', () => {
+    expect(budgetReached({ inputTokens: 600, outputTokens: 399 }, { tokens: 1000 })).toBe(false);
+    expect(budgetReached({ inputTokens: 600, outputTokens: 400 }, { tokens: 1000 })).toBe(true);
+  });
+
+  test('prices dollar budgets, and never trips one without a price', () => {
+    expect(budgetReached({ inputTokens: 150_000, outputTokens: 10_000 }, { usd: 0.5 }, price)).toBe(true);
+    expect(budgetReached({ inputTokens: 100_000, outputTokens: 10_000 }, { usd: 0.5 }, price)).toBe(false);
+    expect(budgetReached({ inputTokens: 150_000, outputTokens: 10_000 }, { usd: 0.5 })).toBe(false);
+  });
+});
+
+describe('usage ledger', () => {
+  test('refuses a call that in-flight reservations would take over budget', () => {
+    const ledger = createUsageLedger({ tokens: 1000 });
+    const call = { inputTokens: 300, outputTokens: 200 };
+
+    expect(ledger.reserve(call)).toBe(true);
+    expect(ledger.reserve(call)).toBe(true);
+    expect(ledger.reserve(call)).toBe(false);
+
+    ledger.settle(call, { inputTokens: 300, outputTokens: 20 });
+    expect(ledger.used).toEqual({ inputTokens: 300, outputTokens: 20 });
+    expect(ledger.reserve(call)).toBe(false);
+    expect(ledger.reserve({ inputTokens: 100, outputTokens: 50 })).toBe(true);
+  });
+
+  test('a failed call releases its reservation without adding usage', () => {
+    const ledger = createUsageLedger({ tokens: 500 });
+    const call = { inputTokens: 300, outputTokens: 200 };
+
+    expect(ledger.reserve(call)).toBe(true);
+    ledger.settle(call);
+    expect(ledger.used).toEqual({ inputTokens: 0, outputTokens: 0 });
+    expect(ledger.reserve(call)).toBe(true);
+  });
+
+  test('without a budget every call is allowed', () => {
+    expect(createUsageLedger().reserve({ inputTokens: 1e9, outputTokens: 1e9 })).toBe(true);
+  });
+});
+
+test('a concurrent run stops sending calls at the budget', async () => {
+  // Every call takes a while and uses its full answer length, so calls overlap and add up
+  const fake = createFakeProvider();
+  setProvider({
+    name: 'slow',
+    async complete(request) {
+      await new Promise(resolve => setTimeout(resolve, 20));
+      const response = await fake.complete(request);
+      return { ...response, usage: { inputTokens: estimateTokens(request.prompt), outputTokens: request.maxTokens } };
+    }
+  }, { maxRetries: 0 });
+
+  const config = mergeConfig(DEFAULT_CONFIG, { cache: false, contextLines: 0 });
+  const ledger = createUsageLedger({ tokens: 4000 });
+  const hunks = Array.from({ length: 8 }, (_, i) => addedFileHunk(`src/file${i}.ts`, `export const value${i} = ${i};`));
+
+  const analyses = await mapWithConcurrency(hunks, 4, hunk => analyzeHunk(hunk, config, ledger));
+
+  expect(ledger.used.inputTokens + ledger.used.outputTokens).toBeLessThanOrEqual(4000);
+  expect(analyses.filter(analysis => analysis.status === 'analyzed').length).toBeGreaterThan(0);
+  expect(analyses.filter(analysis => analysis.status === 'over-budget').length).toBeGreaterThan(0);
+  expect(analyses.every(analysis => analysis.errors === undefined)).toBe(true);
+});